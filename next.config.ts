@@ -1,7 +1,11 @@
 import type { NextConfig } from "next";
 
 const nextConfig: NextConfig = {
-  /* config options here */
+  env: {
+    // Read at build time, so code that only the mock needs (such as its
+    // stand-in CAPTCHA) is left out of builds that don't enable it
+    ENABLE_MOCK_BACKEND: process.env.ENABLE_MOCK_BACKEND ?? "false",
+  },
 };
 
 export default nextConfig;
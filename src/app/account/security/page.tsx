@@ -0,0 +1,44 @@
+"use client";
+
+import Link from "next/link";
+import withAuth from "@/components/auth/withAuth";
+import ChangePasswordForm from "@/components/auth/ChangePasswordForm";
+import TwoFactorSettings from "@/components/auth/TwoFactorSettings";
+
+function AccountSecurity() {
+  return (
+    <div className="min-h-screen bg-gray-100 dark:bg-gray-900 p-4">
+      <header className="bg-white dark:bg-gray-800 shadow p-4 mb-6 rounded-lg">
+        <div className="flex justify-between items-center">
+          <h1 className="text-3xl font-bold text-gray-900 dark:text-white">
+            Account Security
+          </h1>
+          <Link
+            href="/dashboard"
+            className="text-sm font-medium text-blue-600 hover:text-blue-500"
+          >
+            Back to dashboard
+          </Link>
+        </div>
+      </header>
+
+      <main className="space-y-6 max-w-xl">
+        <section className="bg-white dark:bg-gray-800 rounded-lg shadow p-6">
+          <h2 className="text-xl font-semibold mb-4 text-gray-800 dark:text-white">
+            Change Password
+          </h2>
+          <ChangePasswordForm />
+        </section>
+
+        <section className="bg-white dark:bg-gray-800 rounded-lg shadow p-6">
+          <h2 className="text-xl font-semibold mb-4 text-gray-800 dark:text-white">
+            Two-Factor Authentication
+          </h2>
+          <TwoFactorSettings />
+        </section>
+      </main>
+    </div>
+  );
+}
+
+export default withAuth(AccountSecurity);
@@ -0,0 +1,90 @@
+import { NextRequest, NextResponse } from "next/server";
+import { CLIENT_API_BASE_URL } from "@/lib/api/config";
+import { proxyAuthRequest } from "@/lib/api/proxy";
+import { getSafeNextPath } from "@/lib/auth/routes";
+import {
+  OAUTH_PROVIDERS,
+  OAuthProvider,
+  getProvider,
+} from "@/lib/auth/oauthProviders";
+import {
+  OAUTH_COOKIE_MAX_AGE_SECONDS,
+  OAUTH_NEXT_COOKIE,
+  OAUTH_STATE_COOKIE,
+} from "@/lib/auth/oauth";
+
+// Starts sign-in with a social provider. The random state is kept in a cookie
+// and sent to the backend, which passes it back to /auth/callback so the
+// callback can tell it was started here. The backend is reached through this
+// proxy so the session cookie it sets lands on this domain.
+function startOAuthLogin(request: NextRequest, provider: OAuthProvider) {
+  const state = crypto.randomUUID();
+  // Without a next, the callback falls back to the user's last page
+  const next = request.nextUrl.searchParams.get("next");
+
+  const loginUrl = new URL(
+    `${CLIENT_API_BASE_URL}${provider.startPath}`,
+    request.url
+  );
+  loginUrl.searchParams.set("state", state);
+
+  const response = NextResponse.redirect(loginUrl);
+  const cookieOptions = {
+    httpOnly: true,
+    sameSite: "lax" as const,
+    secure: process.env.NODE_ENV === "production",
+    path: "/",
+    maxAge: OAUTH_COOKIE_MAX_AGE_SECONDS,
+  };
+  response.cookies.set(OAUTH_STATE_COOKIE, state, cookieOptions);
+  if (next) {
+    response.cookies.set(
+      OAUTH_NEXT_COOKIE,
+      getSafeNextPath(next),
+      cookieOptions
+    );
+  } else {
+    response.cookies.delete(OAUTH_NEXT_COOKIE);
+  }
+
+  return response;
+}
+
+// /api/auth/<provider> starts that provider's sign-in. So do old links
+// straight to a backend start route such as /api/auth/google-login: without
+// a state the callback would reject them, so only requests carrying one (the
+// redirect above) are proxied.
+function findOAuthStart(request: NextRequest, path: string[]) {
+  if (request.method !== "GET" || path.length !== 1) {
+    return undefined;
+  }
+  const provider = getProvider(path[0]);
+  if (provider || request.nextUrl.searchParams.has("state")) {
+    return provider;
+  }
+  return OAUTH_PROVIDERS.find(
+    (candidate) =>
+      candidate.enabled && candidate.startPath === `/auth/${path[0]}`
+  );
+}
+
+// Same-origin entry point for every /auth/* backend call made by the browser
+async function handle(
+  request: NextRequest,
+  { params }: { params: Promise<{ path: string[] }> }
+) {
+  const { path } = await params;
+  const provider = findOAuthStart(request, path);
+  if (provider) {
+    return startOAuthLogin(request, provider);
+  }
+  return proxyAuthRequest(request, path);
+}
+
+export {
+  handle as GET,
+  handle as POST,
+  handle as PUT,
+  handle as PATCH,
+  handle as DELETE,
+};
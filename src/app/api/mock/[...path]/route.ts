@@ -0,0 +1,63 @@
+import { NextRequest, NextResponse } from "next/server";
+import { SESSION_COOKIE_NAME } from "@/lib/auth/routes";
+import { CSRF_HEADER_NAME } from "@/lib/api/csrf";
+import { handleMockRequest } from "@/lib/mock/mockBackend";
+
+const CSRF_COOKIE_NAME = "csrf-token";
+const REMEMBER_ME_MAX_AGE_SECONDS = 30 * 24 * 60 * 60;
+
+// Serves the in-memory mock backend when ENABLE_MOCK_BACKEND=true. Point the
+// app at it with API_URL=http://localhost:3000/api/mock.
+async function handle(
+  request: NextRequest,
+  { params }: { params: Promise<{ path: string[] }> }
+) {
+  if (process.env.ENABLE_MOCK_BACKEND !== "true") {
+    return NextResponse.json({ message: "Not found" }, { status: 404 });
+  }
+
+  const { path } = await params;
+  let body: Record<string, unknown> = {};
+  if (request.method !== "GET") {
+    body = await request.json().catch(() => ({}));
+  }
+
+  const result = handleMockRequest({
+    method: request.method,
+    path: `/${path.join("/")}`,
+    body,
+    sessionId: request.cookies.get(SESSION_COOKIE_NAME)?.value || null,
+    userAgent: request.headers.get("user-agent") || "",
+    ip:
+      request.headers.get("x-forwarded-for")?.split(",")[0].trim() ||
+      "127.0.0.1",
+    csrfCookie: request.cookies.get(CSRF_COOKIE_NAME)?.value || null,
+    csrfHeader: request.headers.get(CSRF_HEADER_NAME),
+  });
+
+  const response = NextResponse.json(result.body ?? null, {
+    status: result.status,
+    headers: result.headers,
+  });
+  if (result.sessionId) {
+    response.cookies.set(SESSION_COOKIE_NAME, result.sessionId, {
+      httpOnly: true,
+      sameSite: "lax",
+      path: "/",
+      maxAge: result.persistent ? REMEMBER_ME_MAX_AGE_SECONDS : undefined,
+    });
+  } else if (result.sessionId === null) {
+    response.cookies.delete(SESSION_COOKIE_NAME);
+  }
+  if (result.csrfToken) {
+    response.cookies.set(CSRF_COOKIE_NAME, result.csrfToken, {
+      httpOnly: true,
+      sameSite: "lax",
+      path: "/",
+    });
+  }
+
+  return response;
+}
+
+export { handle as GET, handle as POST, handle as PUT, handle as DELETE };
@@ -0,0 +1,22 @@
+import OAuthCallback from "@/components/auth/OAuthCallback";
+import { getSafeNextPath } from "@/lib/auth/routes";
+import { getOAuthErrorMessage } from "@/lib/auth/oauth";
+
+export default async function OAuthResultPage({
+  searchParams,
+}: {
+  searchParams: Promise<Record<string, string | undefined>>;
+}) {
+  const { error, error_description, next } = await searchParams;
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gray-100 dark:bg-gray-900 px-4">
+      <OAuthCallback
+        errorMessage={
+          error ? getOAuthErrorMessage(error, error_description) : null
+        }
+        next={next ? getSafeNextPath(next) : null}
+      />
+    </div>
+  );
+}
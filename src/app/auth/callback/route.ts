@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getSafeNextPath } from "@/lib/auth/routes";
+import {
+  OAUTH_INVALID_STATE_ERROR,
+  OAUTH_NEXT_COOKIE,
+  OAUTH_RESULT_ROUTE,
+  OAUTH_STATE_COOKIE,
+} from "@/lib/auth/oauth";
+
+// Where the backend sends the user after social sign-in. The state cookie is
+// checked and cleared here, so the same callback URL can't be used twice,
+// and the result page shows the outcome.
+export function GET(request: NextRequest) {
+  const { searchParams } = request.nextUrl;
+  const state = searchParams.get("state");
+  const expectedState = request.cookies.get(OAUTH_STATE_COOKIE)?.value;
+  const stateValid = !!state && !!expectedState && state === expectedState;
+  const next = request.cookies.get(OAUTH_NEXT_COOKIE)?.value;
+
+  const resultUrl = new URL(OAUTH_RESULT_ROUTE, request.url);
+  const error = searchParams.get("error");
+  if (error) {
+    resultUrl.searchParams.set("error", error);
+    const description = searchParams.get("error_description");
+    if (description) {
+      resultUrl.searchParams.set("error_description", description);
+    }
+  } else if (!stateValid) {
+    resultUrl.searchParams.set("error", OAUTH_INVALID_STATE_ERROR);
+  }
+  if (next) {
+    resultUrl.searchParams.set("next", getSafeNextPath(next));
+  }
+
+  const response = NextResponse.redirect(resultUrl);
+  response.cookies.delete(OAUTH_STATE_COOKIE);
+  response.cookies.delete(OAUTH_NEXT_COOKIE);
+  return response;
+}
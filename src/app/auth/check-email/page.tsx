@@ -0,0 +1,12 @@
+import { Suspense } from "react";
+import CheckEmailNotice from "@/components/auth/CheckEmailNotice";
+
+export default function CheckEmailPage() {
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gray-100 dark:bg-gray-900 px-4">
+      <Suspense>
+        <CheckEmailNotice />
+      </Suspense>
+    </div>
+  );
+}
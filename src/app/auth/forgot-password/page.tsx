@@ -0,0 +1,9 @@
+import ForgotPasswordForm from "@/components/auth/ForgotPasswordForm";
+
+export default function ForgotPasswordPage() {
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gray-100 dark:bg-gray-900 px-4">
+      <ForgotPasswordForm />
+    </div>
+  );
+}
@@ -0,0 +1,12 @@
+import { Suspense } from "react";
+import MagicLinkSignIn from "@/components/auth/MagicLinkSignIn";
+
+export default function MagicLinkPage() {
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gray-100 dark:bg-gray-900 px-4">
+      <Suspense>
+        <MagicLinkSignIn />
+      </Suspense>
+    </div>
+  );
+}
@@ -0,0 +1,12 @@
+import { Suspense } from "react";
+import ResetPasswordForm from "@/components/auth/ResetPasswordForm";
+
+export default function ResetPasswordPage() {
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gray-100 dark:bg-gray-900 px-4">
+      <Suspense>
+        <ResetPasswordForm />
+      </Suspense>
+    </div>
+  );
+}
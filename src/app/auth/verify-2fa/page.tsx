@@ -0,0 +1,12 @@
+import { Suspense } from "react";
+import TwoFactorVerifyForm from "@/components/auth/TwoFactorVerifyForm";
+
+export default function VerifyTwoFactorPage() {
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gray-100 dark:bg-gray-900 px-4">
+      <Suspense>
+        <TwoFactorVerifyForm />
+      </Suspense>
+    </div>
+  );
+}
@@ -0,0 +1,12 @@
+import { Suspense } from "react";
+import VerifyEmail from "@/components/auth/VerifyEmail";
+
+export default function VerifyEmailPage() {
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gray-100 dark:bg-gray-900 px-4">
+      <Suspense>
+        <VerifyEmail />
+      </Suspense>
+    </div>
+  );
+}
@@ -3,18 +3,37 @@
 import { useSelector, useDispatch } from "react-redux";
 import { RootState, AppDispatch } from "@/lib/redux/store";
 import { logoutUser, manualLogout } from "@/lib/redux/features/auth/authSlice";
+import { fetchAllProgress } from "@/lib/redux/features/progress/progressSlice";
+import { useGetMeQuery } from "@/lib/redux/features/auth/authApi";
 import { useRouter } from "next/navigation";
 import withAuth from "@/components/auth/withAuth";
-import { useState } from "react";
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import CourseProgressList from "@/components/progress/CourseProgressList";
+import ContinueLearningCard from "@/components/progress/ContinueLearningCard";
+import Can from "@/components/auth/Can";
 
 function Dashboard() {
-  const { user, isAuthenticated, status } = useSelector(
+  const { user, isAuthenticated } = useSelector(
     (state: RootState) => state.auth
   );
+  const { isFetching, isError, fulfilledTimeStamp } = useGetMeQuery();
+  const sessionStatus = isFetching
+    ? "checking"
+    : isError
+      ? "check failed"
+      : "verified";
   const dispatch = useDispatch<AppDispatch>();
   const router = useRouter();
   const [isLoggingOut, setIsLoggingOut] = useState(false);
 
+  // Load learning progress once the session is known
+  useEffect(() => {
+    if (isAuthenticated) {
+      dispatch(fetchAllProgress());
+    }
+  }, [dispatch, isAuthenticated]);
+
   // Modified logout handler for immediate redirection
   const handleLogout = () => {
     try {
@@ -41,7 +60,11 @@ function Dashboard() {
   };
 
   // Add console log to check component rendering
-  console.log("Dashboard rendering:", { user, isAuthenticated, status });
+  console.log("Dashboard rendering:", {
+    user,
+    isAuthenticated,
+    sessionStatus,
+  });
 
   return (
     <div className="min-h-screen bg-gray-100 dark:bg-gray-900 p-4">
@@ -54,6 +77,24 @@ function Dashboard() {
             <span className="mr-4 text-gray-700 dark:text-gray-300">
               Welcome, {user?.name || "User"}
             </span>
+            <Link
+              href="/profile"
+              className="mr-4 text-sm font-medium text-blue-600 hover:text-blue-500"
+            >
+              Profile
+            </Link>
+            <Link
+              href="/account/security"
+              className="mr-4 text-sm font-medium text-blue-600 hover:text-blue-500"
+            >
+              Security
+            </Link>
+            <Link
+              href="/account/sessions"
+              className="mr-4 text-sm font-medium text-blue-600 hover:text-blue-500"
+            >
+              Devices
+            </Link>
             <button
               onClick={handleLogout}
               disabled={isLoggingOut}
@@ -73,12 +114,49 @@ function Dashboard() {
         </h2>
 
         <div className="border-2 border-dashed border-gray-200 dark:border-gray-700 rounded-lg p-6 flex flex-col gap-4">
+          {user?.emailVerified === false && (
+            <div
+              className="bg-yellow-100 border border-yellow-400 text-yellow-800 px-4 py-3 rounded relative"
+              role="status"
+            >
+              <span className="block sm:inline">
+                Your email address isn&apos;t verified yet, so publishing is
+                turned off.{" "}
+                <Link
+                  href={`/auth/check-email?email=${encodeURIComponent(user.email)}`}
+                  className="font-medium underline"
+                >
+                  Resend the verification email
+                </Link>
+              </span>
+            </div>
+          )}
+
+          <ContinueLearningCard />
+
+          <Can permission="articles:review">
+            <div className="bg-red-50 dark:bg-red-900/30 p-4 rounded-lg">
+              <h3 className="font-medium mb-2 text-red-800 dark:text-red-300">
+                Editorial Tools
+              </h3>
+              <p>You can review and publish articles submitted by authors.</p>
+            </div>
+          </Can>
+
           <div className="bg-blue-50 dark:bg-blue-900/30 p-4 rounded-lg">
             <h3 className="font-medium mb-2 text-blue-800 dark:text-blue-300">
               Authentication Details
             </h3>
             <p>
-              Status: <span className="font-mono">{status}</span>
+              Session: <span className="font-mono">{sessionStatus}</span>
+            </p>
+            <p>
+              Last checked:{" "}
+              <span className="font-mono">
+                {fulfilledTimeStamp
+                  ? new Date(fulfilledTimeStamp).toLocaleTimeString()
+                  : "Not yet"}
+              </span>
             </p>
             <p>
               Authenticated:{" "}
@@ -106,6 +184,31 @@ function Dashboard() {
                 {user?.email || "Not available"}
               </span>
             </p>
+            <p>
+              Roles:{" "}
+              <span className="font-mono">
+                {user?.roles?.length ? user.roles.join(", ") : "None"}
+              </span>
+            </p>
+            <p>
+              Skill Level:{" "}
+              <span className="font-mono">{user?.skillLevel || "Not set"}</span>
+            </p>
+            <p>
+              Preferred Languages:{" "}
+              <span className="font-mono">
+                {user?.preferredLanguages?.length
+                  ? user.preferredLanguages.join(", ")
+                  : "Not set"}
+              </span>
+            </p>
+          </div>
+
+          <div className="bg-yellow-50 dark:bg-yellow-900/30 p-4 rounded-lg">
+            <h3 className="font-medium mb-2 text-yellow-800 dark:text-yellow-300">
+              Learning Progress
+            </h3>
+            <CourseProgressList />
           </div>
         </div>
       </main>
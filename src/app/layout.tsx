@@ -3,7 +3,9 @@ import { Geist, Geist_Mono } from "next/font/google";
 import "./globals.css";
 import { ReduxProvider } from "@/lib/redux/provider";
 import AuthProvider from "@/components/auth/AuthProvider";
+import { CaptchaProvider } from "@/components/auth/CaptchaSlot";
 import AuthDebugger from "@/components/debug/AuthDebugger";
+import { getServerAuthState } from "@/lib/auth/serverSession";
 
 const geistSans = Geist({
   variable: "--font-geist-sans",
@@ -20,19 +22,33 @@ export const metadata: Metadata = {
   description: "Dashboard for article writing platform",
 };
 
-export default function RootLayout({
+// Put the real CAPTCHA widget here. The stand-in only works with the mock, and
+// since the flag is inlined at build time, production builds don't include it.
+async function loadCaptchaWidget() {
+  if (process.env.ENABLE_MOCK_BACKEND === "true") {
+    const { default: MockCaptchaWidget } =
+      await import("@/components/debug/MockCaptchaWidget");
+    return <MockCaptchaWidget />;
+  }
+  return null;
+}
+
+export default async function RootLayout({
   children,
 }: Readonly<{
   children: React.ReactNode;
 }>) {
+  const authState = await getServerAuthState();
+  const captchaWidget = await loadCaptchaWidget();
+
   return (
     <html lang="en">
       <body
         className={`${geistSans.variable} ${geistMono.variable} antialiased`}
       >
-        <ReduxProvider>
+        <ReduxProvider preloadedState={authState && { auth: authState }}>
           <AuthProvider>
-            {children}
+            <CaptchaProvider widget={captchaWidget}>{children}</CaptchaProvider>
             <AuthDebugger />
           </AuthProvider>
         </ReduxProvider>
@@ -0,0 +1,31 @@
+"use client";
+
+import Link from "next/link";
+import withAuth from "@/components/auth/withAuth";
+import ProfileForm from "@/components/profile/ProfileForm";
+
+function Profile() {
+  return (
+    <div className="min-h-screen bg-gray-100 dark:bg-gray-900 p-4">
+      <header className="bg-white dark:bg-gray-800 shadow p-4 mb-6 rounded-lg">
+        <div className="flex justify-between items-center">
+          <h1 className="text-3xl font-bold text-gray-900 dark:text-white">
+            Profile
+          </h1>
+          <Link
+            href="/dashboard"
+            className="text-sm font-medium text-blue-600 hover:text-blue-500"
+          >
+            Back to dashboard
+          </Link>
+        </div>
+      </header>
+
+      <main className="bg-white dark:bg-gray-800 rounded-lg shadow p-6 max-w-xl">
+        <ProfileForm />
+      </main>
+    </div>
+  );
+}
+
+export default withAuth(Profile);
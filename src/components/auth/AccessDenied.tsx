@@ -0,0 +1,29 @@
+"use client";
+
+import Link from "next/link";
+
+// 403 page for signed-in users who lack the role or permission a page needs
+export default function AccessDenied() {
+  return (
+    <div className="flex items-center justify-center min-h-screen bg-gray-100 dark:bg-gray-900 px-4">
+      <div className="bg-white dark:bg-gray-800 p-6 rounded-lg shadow-lg text-center max-w-md">
+        <p className="text-5xl font-bold text-gray-300 dark:text-gray-600 mb-2">
+          403
+        </p>
+        <h1 className="text-2xl font-bold mb-2 text-gray-900 dark:text-white">
+          Access denied
+        </h1>
+        <p className="text-gray-700 dark:text-gray-300 mb-6">
+          Your account doesn&apos;t have permission to view this page. If you
+          think this is a mistake, ask an administrator for access.
+        </p>
+        <Link
+          href="/dashboard"
+          className="inline-block bg-blue-600 hover:bg-blue-700 text-white py-2 px-4 rounded-md"
+        >
+          Back to dashboard
+        </Link>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,158 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import {
+  ActiveSession,
+  useGetSessionsQuery,
+  useRevokeOtherSessionsMutation,
+  useRevokeSessionMutation,
+} from "@/lib/redux/features/auth/authApi";
+import { toApiError } from "@/lib/api/errors";
+import { describeUserAgent } from "@/lib/auth/userAgent";
+
+function describeSession(session: ActiveSession) {
+  if (session.browser && session.device) {
+    return `${session.browser} on ${session.device}`;
+  }
+  return (
+    session.browser || session.device || describeUserAgent(session.userAgent)
+  );
+}
+
+// Current session first, then the most recently used
+function compareSessions(a: ActiveSession, b: ActiveSession) {
+  if (a.current !== b.current) {
+    return a.current ? -1 : 1;
+  }
+  return (b.lastSeenAt || "").localeCompare(a.lastSeenAt || "");
+}
+
+export default function ActiveSessionsList() {
+  const router = useRouter();
+  const { data: sessions, isLoading, error, refetch } = useGetSessionsQuery();
+  const [revokeSession] = useRevokeSessionMutation();
+  const [revokeOtherSessions, { isLoading: isRevokingOthers }] =
+    useRevokeOtherSessionsMutation();
+  const [revokingId, setRevokingId] = useState<string | null>(null);
+  const [actionError, setActionError] = useState("");
+
+  const handleRevoke = async (session: ActiveSession) => {
+    setActionError("");
+    setRevokingId(session.id);
+    try {
+      await revokeSession(session).unwrap();
+      // The auth slice has already signed this tab out
+      if (session.current) {
+        router.replace("/auth/login");
+      }
+    } catch (err) {
+      console.error("Failed to revoke session:", err);
+      setActionError(toApiError(err).message);
+    } finally {
+      setRevokingId(null);
+    }
+  };
+
+  const handleRevokeOthers = async () => {
+    setActionError("");
+    try {
+      await revokeOtherSessions().unwrap();
+    } catch (err) {
+      console.error("Failed to revoke other sessions:", err);
+      setActionError(toApiError(err).message);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <p className="text-gray-600 dark:text-gray-400">Loading sessions...</p>
+    );
+  }
+
+  if (error || !sessions) {
+    return (
+      <div
+        className="bg-red-100 border border-red-400 text-red-700 px-4 py-3 rounded relative"
+        role="alert"
+      >
+        <span className="block sm:inline">
+          {error ? toApiError(error).message : "Could not load sessions"}
+        </span>
+        <button
+          type="button"
+          onClick={() => refetch()}
+          className="ml-2 font-medium underline"
+        >
+          Try again
+        </button>
+      </div>
+    );
+  }
+
+  const hasOtherSessions = sessions.some((session) => !session.current);
+
+  return (
+    <div className="space-y-4">
+      {actionError && (
+        <div
+          className="bg-red-100 border border-red-400 text-red-700 px-4 py-3 rounded relative"
+          role="alert"
+        >
+          <span className="block sm:inline">{actionError}</span>
+        </div>
+      )}
+
+      <ul className="divide-y divide-gray-200 dark:divide-gray-700">
+        {[...sessions].sort(compareSessions).map((session) => (
+          <li
+            key={session.id}
+            className="py-3 flex items-center justify-between gap-4"
+          >
+            <div>
+              <p className="font-medium text-gray-900 dark:text-white">
+                {describeSession(session)}
+                {session.current && (
+                  <span className="ml-2 text-xs font-semibold text-green-700 bg-green-100 px-2 py-0.5 rounded">
+                    This device
+                  </span>
+                )}
+              </p>
+              <p className="text-sm text-gray-600 dark:text-gray-400">
+                {session.ip || "Unknown IP"} · Last active{" "}
+                {session.lastSeenAt
+                  ? new Date(session.lastSeenAt).toLocaleString()
+                  : "unknown"}
+              </p>
+            </div>
+            <button
+              type="button"
+              onClick={() => handleRevoke(session)}
+              disabled={revokingId === session.id || isRevokingOthers}
+              className="shrink-0 text-sm bg-gray-200 hover:bg-gray-300 text-gray-800 py-1 px-3 rounded-md disabled:opacity-50"
+            >
+              {revokingId === session.id
+                ? "Signing out..."
+                : session.current
+                  ? "Sign out this device"
+                  : "Sign out"}
+            </button>
+          </li>
+        ))}
+      </ul>
+
+      {hasOtherSessions && (
+        <button
+          type="button"
+          onClick={handleRevokeOthers}
+          disabled={isRevokingOthers}
+          className="w-full bg-red-600 hover:bg-red-700 text-white py-2 px-4 rounded-md focus:outline-none focus:ring-2 focus:ring-red-500 focus:ring-offset-2 disabled:opacity-50"
+        >
+          {isRevokingOthers
+            ? "Signing out other devices..."
+            : "Sign out all other devices"}
+        </button>
+      )}
+    </div>
+  );
+}
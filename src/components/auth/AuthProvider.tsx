@@ -1,29 +1,29 @@
 "use client";
 
-import { useEffect, useState } from "react";
-import { useDispatch } from "react-redux";
-import { AppDispatch } from "@/lib/redux/store";
-import { checkAuthStatus } from "@/lib/redux/features/auth/authSlice";
+import { useGetMeQuery } from "@/lib/redux/features/auth/authApi";
+import IdleTimeoutManager from "./IdleTimeoutManager";
+import RouteChangeHandler from "./RouteChangeHandler";
+import SessionExpiryHandler from "./SessionExpiryHandler";
+import SessionSyncHandler from "./SessionSyncHandler";
 
 export default function AuthProvider({
   children,
 }: {
   children: React.ReactNode;
 }) {
-  const dispatch = useDispatch<AppDispatch>();
-  const [initialized, setInitialized] = useState(false);
+  // Keep the session query subscribed for the lifetime of the app. RTK Query
+  // dedupes it with every other /auth/me caller and refetches it whenever a
+  // login, logout or profile update invalidates the session. A session
+  // hydrated by the server render is only revalidated in the background.
+  useGetMeQuery();
 
-  // Check auth status once on initial load
-  useEffect(() => {
-    if (!initialized) {
-      console.log("AuthProvider: Initializing auth check");
-
-      dispatch(checkAuthStatus()).finally(() => {
-        console.log("AuthProvider: Auth check complete");
-        setInitialized(true);
-      });
-    }
-  }, [dispatch, initialized]);
-
-  return <>{children}</>;
+  return (
+    <>
+      <SessionExpiryHandler />
+      <SessionSyncHandler />
+      <IdleTimeoutManager />
+      <RouteChangeHandler />
+      {children}
+    </>
+  );
 }
@@ -0,0 +1,29 @@
+"use client";
+
+import { Permission, Role } from "@/lib/auth/permissions";
+import { useMeetsRequirements } from "@/lib/auth/usePermissions";
+
+// Renders children only when the current user has the permission (or all of
+// the permissions) and, if given, one of the roles
+export default function Can({
+  permission,
+  role,
+  fallback = null,
+  children,
+}: {
+  permission?: Permission | Permission[];
+  role?: Role | Role[];
+  fallback?: React.ReactNode;
+  children: React.ReactNode;
+}) {
+  const allowed = useMeetsRequirements({
+    permissions: permission
+      ? Array.isArray(permission)
+        ? permission
+        : [permission]
+      : undefined,
+    roles: role ? (Array.isArray(role) ? role : [role]) : undefined,
+  });
+
+  return <>{allowed ? children : fallback}</>;
+}
@@ -0,0 +1,58 @@
+"use client";
+
+import { createContext, useContext } from "react";
+
+type VerifyCallback = (token: string | null) => void;
+
+// The app's CAPTCHA widget (Turnstile, reCAPTCHA, hCaptcha...), set once
+// with CaptchaProvider
+const CaptchaWidgetContext = createContext<React.ReactNode>(null);
+const CaptchaVerifyContext = createContext<VerifyCallback>(() => {});
+
+export function CaptchaProvider({
+  widget,
+  children,
+}: {
+  widget: React.ReactNode;
+  children: React.ReactNode;
+}) {
+  return (
+    <CaptchaWidgetContext.Provider value={widget}>
+      {children}
+    </CaptchaWidgetContext.Provider>
+  );
+}
+
+// For the widget: call it with the token once solved, or null when it
+// expires
+export function useCaptchaVerify() {
+  return useContext(CaptchaVerifyContext);
+}
+
+// Where the CAPTCHA goes once the backend asks for one. Remount it (change
+// its key) after every attempt, since tokens can only be used once.
+export default function CaptchaSlot({
+  onVerify,
+}: {
+  onVerify: VerifyCallback;
+}) {
+  const widget = useContext(CaptchaWidgetContext);
+
+  return (
+    <div className="border border-gray-300 dark:border-gray-600 rounded-md p-3">
+      <p className="text-sm text-gray-600 dark:text-gray-400 mb-2">
+        Please confirm you&apos;re not a robot.
+      </p>
+      {widget ? (
+        <CaptchaVerifyContext.Provider value={onVerify}>
+          {widget}
+        </CaptchaVerifyContext.Provider>
+      ) : (
+        <p className="text-sm text-red-600" role="alert">
+          The security check can&apos;t be shown right now. Please try again
+          later.
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,144 @@
+"use client";
+
+import { useEffect } from "react";
+import { useDispatch, useSelector } from "react-redux";
+import {
+  changePassword,
+  clearPasswordChangeState,
+} from "@/lib/redux/features/auth/authSlice";
+import { AppDispatch, RootState } from "@/lib/redux/store";
+import { ApiError } from "@/lib/api/errors";
+import { useForm } from "@/lib/forms/useForm";
+import {
+  ChangePasswordValues,
+  changePasswordSchema,
+} from "@/lib/forms/schemas";
+import FormField from "@/components/forms/FormField";
+
+const EMPTY_VALUES: ChangePasswordValues = {
+  oldPassword: "",
+  newPassword: "",
+  confirmPassword: "",
+};
+
+// Work out where a failed change is reported. Field details from a validation
+// response go next to their inputs through useForm, and a 401 means the old
+// password was rejected. Anything else, including a 403 for a stale CSRF
+// token, is shown as a general error rather than blamed on the password.
+function splitChangePasswordError(error: ApiError | null) {
+  switch (error?.kind) {
+    case "network":
+      return { networkError: error.message };
+    case "unauthorized":
+      return error.status === 401
+        ? { oldPasswordError: error.message }
+        : { serverError: error.message };
+    case "validation":
+      return Object.keys(error.fieldErrors).length > 0
+        ? {}
+        : { serverError: error.message };
+    case "rateLimited":
+    case "server":
+      return { serverError: error.message };
+    default:
+      return {};
+  }
+}
+
+export default function ChangePasswordForm() {
+  const form = useForm<ChangePasswordValues>({
+    initialValues: EMPTY_VALUES,
+    schema: changePasswordSchema,
+  });
+
+  const dispatch = useDispatch<AppDispatch>();
+  const { status, error } = useSelector(
+    (state: RootState) => state.auth.passwordChange
+  );
+  const { networkError, oldPasswordError, serverError } =
+    splitChangePasswordError(error);
+
+  useEffect(() => {
+    dispatch(clearPasswordChangeState());
+    return () => {
+      dispatch(clearPasswordChangeState());
+    };
+  }, [dispatch]);
+
+  const handleSubmit = form.handleSubmit(
+    async ({ oldPassword, newPassword }) => {
+      try {
+        await dispatch(changePassword({ oldPassword, newPassword })).unwrap();
+        form.reset(EMPTY_VALUES);
+      } catch (err) {
+        console.error("Failed to change password:", err);
+        form.applyApiError(err);
+      }
+    }
+  );
+
+  return (
+    <form onSubmit={handleSubmit} noValidate className="space-y-4">
+      {status === "succeeded" && (
+        <div
+          className="bg-green-100 border border-green-400 text-green-700 px-4 py-3 rounded relative"
+          role="status"
+        >
+          <span className="block sm:inline">
+            Your password has been changed.
+          </span>
+        </div>
+      )}
+
+      {networkError && (
+        <div
+          className="bg-yellow-100 border border-yellow-400 text-yellow-800 px-4 py-3 rounded relative"
+          role="alert"
+        >
+          <span className="block sm:inline">{networkError}</span>
+        </div>
+      )}
+
+      {serverError && (
+        <div
+          className="bg-red-100 border border-red-400 text-red-700 px-4 py-3 rounded relative"
+          role="alert"
+        >
+          <span className="block sm:inline">{serverError}</span>
+        </div>
+      )}
+
+      <FormField
+        label="Current Password"
+        type="password"
+        autoComplete="current-password"
+        error={form.errors.oldPassword || oldPasswordError}
+        {...form.getFieldProps("oldPassword")}
+      />
+
+      <FormField
+        label="New Password"
+        type="password"
+        autoComplete="new-password"
+        error={form.errors.newPassword}
+        {...form.getFieldProps("newPassword")}
+      />
+
+      <FormField
+        label="Confirm New Password"
+        type="password"
+        autoComplete="new-password"
+        error={form.errors.confirmPassword}
+        {...form.getFieldProps("confirmPassword")}
+      />
+
+      <button
+        type="submit"
+        disabled={status === "loading"}
+        className="w-full bg-blue-600 hover:bg-blue-700 text-white py-2 px-4 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 disabled:opacity-50"
+      >
+        {status === "loading" ? "Saving..." : "Change password"}
+      </button>
+    </form>
+  );
+}
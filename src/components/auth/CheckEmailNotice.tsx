@@ -0,0 +1,37 @@
+"use client";
+
+import { useSelector } from "react-redux";
+import { useSearchParams } from "next/navigation";
+import Link from "next/link";
+import { RootState } from "@/lib/redux/store";
+import ResendVerificationButton from "./ResendVerificationButton";
+
+// Shown after registering, while the verification email is on its way
+export default function CheckEmailNotice() {
+  const searchParams = useSearchParams();
+  const user = useSelector((state: RootState) => state.auth.user);
+  const email = user?.email || searchParams.get("email") || "";
+
+  return (
+    <div className="w-full max-w-md p-6 bg-white dark:bg-gray-800 rounded-lg shadow-md text-center">
+      <h2 className="text-2xl font-bold mb-4">Check your inbox</h2>
+      <p className="text-gray-600 dark:text-gray-400 mb-6">
+        We sent a verification link to{" "}
+        {email ? <strong>{email}</strong> : "your email address"}. Follow the
+        link to confirm your address. Some features, like publishing, stay
+        locked until you do.
+      </p>
+
+      <ResendVerificationButton email={email} justSent />
+
+      <div className="mt-6">
+        <Link
+          href="/dashboard"
+          className="text-sm font-medium text-blue-600 hover:text-blue-500"
+        >
+          Continue to dashboard
+        </Link>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,32 @@
+"use client";
+
+import Link from "next/link";
+import ResendVerificationButton from "./ResendVerificationButton";
+
+// Shown by withAuth on pages that need a verified email address
+export default function EmailVerificationRequired({
+  email,
+}: {
+  email: string;
+}) {
+  return (
+    <div className="flex items-center justify-center min-h-screen bg-gray-100 dark:bg-gray-900 px-4">
+      <div className="bg-white dark:bg-gray-800 p-6 rounded-lg shadow-lg text-center max-w-md">
+        <h1 className="text-2xl font-bold mb-2 text-gray-900 dark:text-white">
+          Verify your email
+        </h1>
+        <p className="text-gray-700 dark:text-gray-300 mb-6">
+          Please confirm <strong>{email}</strong> before using this page. Check
+          your inbox for the verification link, or send a new one.
+        </p>
+        <ResendVerificationButton email={email} />
+        <Link
+          href="/dashboard"
+          className="inline-block mt-6 text-sm font-medium text-blue-600 hover:text-blue-500"
+        >
+          Back to dashboard
+        </Link>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,107 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useDispatch, useSelector } from "react-redux";
+import {
+  clearPasswordResetState,
+  requestPasswordReset,
+} from "@/lib/redux/features/auth/authSlice";
+import { AppDispatch, RootState } from "@/lib/redux/store";
+import Link from "next/link";
+
+export default function ForgotPasswordForm() {
+  const [email, setEmail] = useState("");
+  const dispatch = useDispatch<AppDispatch>();
+
+  const { status, error } = useSelector(
+    (state: RootState) => state.auth.passwordResetRequest
+  );
+
+  // Start from a clean slate every time the page is opened
+  useEffect(() => {
+    dispatch(clearPasswordResetState());
+    return () => {
+      dispatch(clearPasswordResetState());
+    };
+  }, [dispatch]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    try {
+      await dispatch(requestPasswordReset(email)).unwrap();
+    } catch (err) {
+      console.error("Failed to request password reset:", err);
+    }
+  };
+
+  return (
+    <div className="w-full max-w-md p-6 bg-white dark:bg-gray-800 rounded-lg shadow-md">
+      <h2 className="text-2xl font-bold mb-6 text-center">
+        Reset Your Password
+      </h2>
+
+      {status === "succeeded" ? (
+        <div
+          className="bg-green-100 border border-green-400 text-green-700 px-4 py-3 rounded relative"
+          role="status"
+        >
+          <span className="block sm:inline">
+            If an account exists for {email}, you&apos;ll receive an email with
+            a link to reset your password.
+          </span>
+        </div>
+      ) : (
+        <form onSubmit={handleSubmit} className="space-y-4">
+          {error && (
+            <div
+              className="bg-red-100 border border-red-400 text-red-700 px-4 py-3 rounded relative"
+              role="alert"
+            >
+              <span className="block sm:inline">{error.message}</span>
+            </div>
+          )}
+
+          <p className="text-sm text-gray-600 dark:text-gray-400">
+            Enter the email address you registered with and we&apos;ll send you
+            a link to choose a new password.
+          </p>
+
+          <div>
+            <label
+              htmlFor="email"
+              className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1"
+            >
+              Email
+            </label>
+            <input
+              id="email"
+              type="email"
+              value={email}
+              onChange={(e) => setEmail(e.target.value)}
+              required
+              className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm focus:outline-none focus:ring-primary-500 focus:border-primary-500"
+            />
+          </div>
+
+          <button
+            type="submit"
+            disabled={status === "loading"}
+            className="w-full bg-blue-600 hover:bg-blue-700 text-white py-2 px-4 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 disabled:opacity-50"
+          >
+            {status === "loading" ? "Sending..." : "Send reset link"}
+          </button>
+        </form>
+      )}
+
+      <div className="mt-6 text-center">
+        <Link
+          href="/auth/login"
+          className="text-sm font-medium text-blue-600 hover:text-blue-500"
+        >
+          Back to login
+        </Link>
+      </div>
+    </div>
+  );
+}
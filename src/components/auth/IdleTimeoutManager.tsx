@@ -0,0 +1,62 @@
+"use client";
+
+import { useCallback, useState } from "react";
+import { useDispatch, useSelector } from "react-redux";
+import { useRouter } from "next/navigation";
+import { AppDispatch, RootState } from "@/lib/redux/store";
+import {
+  checkAuthStatus,
+  logoutUser,
+} from "@/lib/redux/features/auth/authSlice";
+import { IDLE_TIMEOUT_MS, IDLE_WARNING_MS } from "@/lib/auth/idleTimeout";
+import { useIdleTimer } from "@/lib/auth/useIdleTimer";
+import IdleWarningModal from "./IdleWarningModal";
+
+// Logs the user out after a period of inactivity, with a warning first
+export default function IdleTimeoutManager() {
+  const dispatch = useDispatch<AppDispatch>();
+  const router = useRouter();
+  const isAuthenticated = useSelector(
+    (state: RootState) => state.auth.isAuthenticated
+  );
+  const [isExtending, setIsExtending] = useState(false);
+
+  const logout = useCallback(() => {
+    console.log("Logging out after inactivity");
+    dispatch(logoutUser());
+    router.replace("/auth/login?reason=idle");
+  }, [dispatch, router]);
+
+  const { isWarning, remainingMs, stayActive } = useIdleTimer({
+    enabled: isAuthenticated,
+    timeoutMs: IDLE_TIMEOUT_MS,
+    warningMs: IDLE_WARNING_MS,
+    onTimeout: logout,
+  });
+
+  const handleStaySignedIn = async () => {
+    setIsExtending(true);
+    stayActive();
+    try {
+      // Touching /auth/me keeps the backend session alive as well
+      await dispatch(checkAuthStatus()).unwrap();
+    } catch (error) {
+      console.error("Failed to extend session:", error);
+    } finally {
+      setIsExtending(false);
+    }
+  };
+
+  if (!isWarning || remainingMs === null) {
+    return null;
+  }
+
+  return (
+    <IdleWarningModal
+      remainingMs={remainingMs}
+      isExtending={isExtending}
+      onStaySignedIn={handleStaySignedIn}
+      onLogout={logout}
+    />
+  );
+}
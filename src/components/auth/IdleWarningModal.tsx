@@ -0,0 +1,54 @@
+"use client";
+
+export default function IdleWarningModal({
+  remainingMs,
+  isExtending,
+  onStaySignedIn,
+  onLogout,
+}: {
+  remainingMs: number;
+  isExtending: boolean;
+  onStaySignedIn: () => void;
+  onLogout: () => void;
+}) {
+  const seconds = Math.max(0, Math.ceil(remainingMs / 1000));
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 px-4"
+      role="alertdialog"
+      aria-modal="true"
+      aria-labelledby="idle-warning-title"
+    >
+      <div className="bg-white dark:bg-gray-800 p-6 rounded-lg shadow-lg max-w-sm w-full text-center">
+        <h2
+          id="idle-warning-title"
+          className="text-xl font-semibold mb-2 text-gray-900 dark:text-white"
+        >
+          Are you still there?
+        </h2>
+        <p className="text-gray-700 dark:text-gray-300 mb-6">
+          You&apos;ll be logged out in{" "}
+          <span className="font-mono font-semibold">{seconds}s</span> — stay
+          signed in?
+        </p>
+        <div className="flex gap-2 justify-center">
+          <button
+            onClick={onStaySignedIn}
+            disabled={isExtending}
+            autoFocus
+            className="bg-blue-600 hover:bg-blue-700 text-white py-2 px-4 rounded-md disabled:opacity-50"
+          >
+            {isExtending ? "Extending..." : "Stay signed in"}
+          </button>
+          <button
+            onClick={onLogout}
+            className="bg-gray-200 hover:bg-gray-300 text-gray-800 py-2 px-4 rounded-md"
+          >
+            Log out now
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -2,41 +2,160 @@
 
 import { useState, useEffect } from "react";
 import { useDispatch, useSelector } from "react-redux";
-import { useRouter } from "next/navigation";
-import { loginUser } from "@/lib/redux/features/auth/authSlice";
+import { useRouter, useSearchParams } from "next/navigation";
+import {
+  loginUser,
+  selectCurrentUser,
+  selectIsAuthenticated,
+  selectLoginError,
+  selectLoginStatus,
+} from "@/lib/redux/features/auth/authSlice";
+import {
+  isTwoFactorChallenge,
+  LoginCredentials,
+} from "@/lib/redux/features/auth/authApi";
 import { AppDispatch, RootState } from "@/lib/redux/store";
+import { getSafeNextPath } from "@/lib/auth/routes";
+import { getPostLoginPath } from "@/lib/auth/lastRoute";
+import {
+  clearLoginFailures,
+  getLoginThrottle,
+  recordLoginFailure,
+} from "@/lib/auth/loginThrottle";
+import { useCountdown } from "@/lib/auth/useCountdown";
+import { ApiError, toApiError } from "@/lib/api/errors";
+import { useForm } from "@/lib/forms/useForm";
+import { LoginValues, loginSchema } from "@/lib/forms/schemas";
 import Link from "next/link";
+import SocialLoginButtons from "./SocialLoginButtons";
+import CaptchaSlot from "./CaptchaSlot";
+import MagicLinkForm from "./MagicLinkForm";
+import FormField from "@/components/forms/FormField";
+
+// How long to hold off after a 429 that doesn't say when to come back
+const RATE_LIMIT_FALLBACK_MS = 30 * 1000;
+
+function formatWait(seconds: number) {
+  if (seconds < 60) {
+    return `${seconds}s`;
+  }
+  const rest = seconds % 60;
+  return `${Math.floor(seconds / 60)}:${String(rest).padStart(2, "0")}`;
+}
+
+// Rate limit messages are rewritten around the countdown; anything else is
+// shown as the backend sent it
+function describeLoginError(error: ApiError, waitSeconds: number) {
+  if (error.kind !== "rateLimited") {
+    return error.message;
+  }
+  const prefix = error.locked
+    ? "This account is temporarily locked after too many failed attempts."
+    : "Too many login attempts.";
+  return waitSeconds > 0
+    ? `${prefix} Try again in ${formatWait(waitSeconds)}.`
+    : `${prefix} You can try again now.`;
+}
 
 export default function LoginForm() {
-  const [email, setEmail] = useState("");
-  const [password, setPassword] = useState("");
+  const form = useForm<LoginValues>({
+    initialValues: { email: "", password: "" },
+    schema: loginSchema,
+  });
   const dispatch = useDispatch<AppDispatch>();
   const router = useRouter();
+  const searchParams = useSearchParams();
+  const passwordWasReset = searchParams.get("reset") === "success";
+  const loggedOutForInactivity = searchParams.get("reason") === "idle";
+  // Only set when something sent the user here; otherwise they go back to
+  // their last page once we know who they are
+  const nextParam = searchParams.get("next");
+  const nextPath = nextParam ? getSafeNextPath(nextParam) : undefined;
   const [loginAttempted, setLoginAttempted] = useState(false);
+  const [rememberMe, setRememberMe] = useState(false);
+  // ?mode=magic opens the sign-in link form, e.g. from an expired link
+  const [useMagicLink, setUseMagicLink] = useState(
+    searchParams.get("mode") === "magic"
+  );
+  const [blockedUntil, setBlockedUntil] = useState(0);
+  // Only the backend decides when a CAPTCHA is needed
+  const [captchaDemanded, setCaptchaDemanded] = useState(false);
+  const [captchaToken, setCaptchaToken] = useState<string | null>(null);
+  const [captchaKey, setCaptchaKey] = useState(0);
+  const waitSeconds = useCountdown(blockedUntil);
 
-  const { status, error, isAuthenticated } = useSelector(
-    (state: RootState) => state.auth
+  const status = useSelector(selectLoginStatus);
+  const error = useSelector(selectLoginError);
+  const isAuthenticated = useSelector(selectIsAuthenticated);
+  const userId = useSelector(selectCurrentUser)?._id;
+  const sessionExpired = useSelector(
+    (state: RootState) => state.auth.sessionExpired
   );
 
   // Listen for authentication state changes to redirect after successful login
   useEffect(() => {
     if (loginAttempted && isAuthenticated && status === "succeeded") {
-      router.push("/dashboard");
+      router.push(getPostLoginPath(nextPath, userId));
     }
-  }, [isAuthenticated, status, router, loginAttempted]);
+  }, [isAuthenticated, status, router, loginAttempted, nextPath, userId]);
+
+  // Failures are tracked per email, so pick up where this one left off
+  const email = form.values.email;
+  useEffect(() => {
+    setBlockedUntil(getLoginThrottle(email).blockedUntil);
+  }, [email]);
 
-  const handleSubmit = async (e: React.FormEvent) => {
-    e.preventDefault();
+  const handleSubmit = form.handleSubmit(async (credentials) => {
+    if (waitSeconds > 0) return;
     setLoginAttempted(true);
 
+    const attempt: LoginCredentials = { ...credentials, rememberMe };
+    if (captchaDemanded && captchaToken) {
+      attempt.captchaToken = captchaToken;
+    }
+
     try {
-      await dispatch(loginUser({ email, password })).unwrap();
+      const result = await dispatch(loginUser(attempt)).unwrap();
+      clearLoginFailures(credentials.email);
+      setBlockedUntil(0);
+      setCaptchaDemanded(false);
+      if (isTwoFactorChallenge(result)) {
+        router.push(
+          nextPath
+            ? `/auth/verify-2fa?next=${encodeURIComponent(nextPath)}`
+            : "/auth/verify-2fa"
+        );
+        return;
+      }
       // The redirect will happen in the useEffect above
     } catch (err) {
       console.error("Failed to login:", err);
+      form.applyApiError(err);
       setLoginAttempted(false);
+
+      // Wrong credentials (401) and rate limits count towards the backoff;
+      // network trouble, validation errors and 403s such as a stale CSRF
+      // token don't
+      const apiError = toApiError(err);
+      const wrongCredentials =
+        apiError.kind === "unauthorized" && apiError.status === 401;
+      if (wrongCredentials || apiError.kind === "rateLimited") {
+        const throttle = recordLoginFailure(
+          credentials.email,
+          apiError.kind === "rateLimited"
+            ? (apiError.retryAfterMs ?? RATE_LIMIT_FALLBACK_MS)
+            : null
+        );
+        setBlockedUntil(throttle.blockedUntil);
+        if (apiError.captchaRequired) {
+          setCaptchaDemanded(true);
+        }
+      }
+      // CAPTCHA tokens are single-use
+      setCaptchaToken(null);
+      setCaptchaKey((key) => key + 1);
     }
-  };
+  });
 
   return (
     <div className="w-full max-w-md p-6 bg-white dark:bg-gray-800 rounded-lg shadow-md">
@@ -44,96 +163,128 @@ export default function LoginForm() {
         Login to Your Account
       </h2>
 
-      <form onSubmit={handleSubmit} className="space-y-4">
-        {error && (
-          <div
-            className="bg-red-100 border border-red-400 text-red-700 px-4 py-3 rounded relative"
-            role="alert"
-          >
-            <span className="block sm:inline">{error}</span>
-          </div>
-        )}
+      {useMagicLink ? (
+        <MagicLinkForm
+          next={nextPath}
+          initialEmail={form.values.email}
+          onUsePassword={() => setUseMagicLink(false)}
+        />
+      ) : (
+        <>
+          <form onSubmit={handleSubmit} noValidate className="space-y-4">
+            {sessionExpired && !error && (
+              <div
+                className="bg-yellow-100 border border-yellow-400 text-yellow-800 px-4 py-3 rounded relative"
+                role="status"
+              >
+                <span className="block sm:inline">
+                  Your session expired. Please log in again to continue.
+                </span>
+              </div>
+            )}
 
-        <div>
-          <label
-            htmlFor="email"
-            className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1"
-          >
-            Email
-          </label>
-          <input
-            id="email"
-            type="email"
-            value={email}
-            onChange={(e) => setEmail(e.target.value)}
-            required
-            className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm focus:outline-none focus:ring-primary-500 focus:border-primary-500"
-          />
-        </div>
-
-        <div>
-          <label
-            htmlFor="password"
-            className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1"
-          >
-            Password
-          </label>
-          <input
-            id="password"
-            type="password"
-            value={password}
-            onChange={(e) => setPassword(e.target.value)}
-            required
-            className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm focus:outline-none focus:ring-primary-500 focus:border-primary-500"
-          />
-        </div>
-
-        <button
-          type="submit"
-          disabled={status === "loading"}
-          className="w-full bg-blue-600 hover:bg-blue-700 text-white py-2 px-4 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 disabled:opacity-50"
-        >
-          {status === "loading" ? "Logging in..." : "Login"}
-        </button>
-      </form>
-
-      <div className="mt-4 text-center">
-        <Link
-          href="/auth/forgot-password"
-          className="text-sm text-blue-600 hover:text-blue-800"
-        >
-          Forgot password?
-        </Link>
-      </div>
+            {loggedOutForInactivity && !sessionExpired && !error && (
+              <div
+                className="bg-yellow-100 border border-yellow-400 text-yellow-800 px-4 py-3 rounded relative"
+                role="status"
+              >
+                <span className="block sm:inline">
+                  You were logged out after a period of inactivity.
+                </span>
+              </div>
+            )}
 
-      <div className="mt-6">
-        <div className="relative">
-          <div className="absolute inset-0 flex items-center">
-            <div className="w-full border-t border-gray-300"></div>
-          </div>
-          <div className="relative flex justify-center text-sm">
-            <span className="px-2 bg-white dark:bg-gray-800 text-gray-500">
-              Or continue with
-            </span>
-          </div>
-        </div>
+            {passwordWasReset && !error && (
+              <div
+                className="bg-green-100 border border-green-400 text-green-700 px-4 py-3 rounded relative"
+                role="status"
+              >
+                <span className="block sm:inline">
+                  Your password has been reset. Please log in with your new
+                  password.
+                </span>
+              </div>
+            )}
 
-        <div className="mt-6">
-          <a
-            href="/api/auth/google-login"
-            className="w-full inline-flex justify-center py-2 px-4 border border-gray-300 rounded-md shadow-sm bg-white text-sm font-medium text-gray-700 hover:bg-gray-50"
-          >
-            <svg
-              className="w-5 h-5 mr-2"
-              fill="currentColor"
-              viewBox="0 0 24 24"
+            {error && !form.hasServerErrors && (
+              <div
+                className="bg-red-100 border border-red-400 text-red-700 px-4 py-3 rounded relative"
+                role="alert"
+              >
+                <span className="block sm:inline">
+                  {describeLoginError(error, waitSeconds)}
+                </span>
+              </div>
+            )}
+
+            <FormField
+              label="Email"
+              type="email"
+              autoComplete="email"
+              error={form.errors.email}
+              {...form.getFieldProps("email")}
+            />
+
+            <FormField
+              label="Password"
+              type="password"
+              autoComplete="current-password"
+              error={form.errors.password}
+              {...form.getFieldProps("password")}
+            />
+
+            <label className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+              <input
+                type="checkbox"
+                name="rememberMe"
+                checked={rememberMe}
+                onChange={(e) => setRememberMe(e.target.checked)}
+                className="h-4 w-4 text-blue-600 border-gray-300 rounded"
+              />
+              Keep me signed in
+            </label>
+
+            {captchaDemanded && (
+              <CaptchaSlot key={captchaKey} onVerify={setCaptchaToken} />
+            )}
+
+            <button
+              type="submit"
+              disabled={
+                status === "loading" ||
+                waitSeconds > 0 ||
+                (captchaDemanded && !captchaToken)
+              }
+              className="w-full bg-blue-600 hover:bg-blue-700 text-white py-2 px-4 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 disabled:opacity-50"
             >
-              <path d="M12.545,10.239v3.821h5.445c-0.712,2.315-2.647,3.972-5.445,3.972c-3.332,0-6.033-2.701-6.033-6.032s2.701-6.032,6.033-6.032c1.498,0,2.866,0.549,3.921,1.453l2.814-2.814C17.503,2.988,15.139,2,12.545,2C7.021,2,2.543,6.477,2.543,12s4.478,10,10.002,10c8.396,0,10.249-7.85,9.426-11.748L12.545,10.239z" />
-            </svg>
-            Google
-          </a>
-        </div>
-      </div>
+              {status === "loading"
+                ? "Logging in..."
+                : waitSeconds > 0
+                  ? `Try again in ${formatWait(waitSeconds)}`
+                  : "Login"}
+            </button>
+          </form>
+
+          <div className="mt-4 text-center">
+            <Link
+              href="/auth/forgot-password"
+              className="text-sm text-blue-600 hover:text-blue-800"
+            >
+              Forgot password?
+            </Link>
+            <span className="mx-2 text-gray-400">·</span>
+            <button
+              type="button"
+              onClick={() => setUseMagicLink(true)}
+              className="text-sm text-blue-600 hover:text-blue-800"
+            >
+              Email me a sign-in link
+            </button>
+          </div>
+        </>
+      )}
+
+      <SocialLoginButtons next={nextPath} />
 
       <div className="mt-6 text-center">
         <p className="text-sm text-gray-600 dark:text-gray-400">
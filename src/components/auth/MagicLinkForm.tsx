@@ -0,0 +1,160 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useDispatch, useSelector } from "react-redux";
+import {
+  clearMagicLinkState,
+  requestMagicLink,
+} from "@/lib/redux/features/auth/authSlice";
+import { AppDispatch, RootState } from "@/lib/redux/store";
+import { useCountdown } from "@/lib/auth/useCountdown";
+import { toApiError } from "@/lib/api/errors";
+import { useForm } from "@/lib/forms/useForm";
+import { MagicLinkValues, magicLinkSchema } from "@/lib/forms/schemas";
+import FormField from "@/components/forms/FormField";
+
+// How long to wait between sign-in emails
+const RESEND_COOLDOWN_MS = 60 * 1000;
+
+// The "Email me a sign-in link" mode of the login page: asks for an email,
+// then waits on the inbox with a rate-limited resend
+export default function MagicLinkForm({
+  next,
+  initialEmail = "",
+  onUsePassword,
+}: {
+  next?: string;
+  initialEmail?: string;
+  onUsePassword: () => void;
+}) {
+  const form = useForm<MagicLinkValues>({
+    initialValues: { email: initialEmail },
+    schema: magicLinkSchema,
+  });
+  const dispatch = useDispatch<AppDispatch>();
+  const { status, error } = useSelector(
+    (state: RootState) => state.auth.magicLinkRequest
+  );
+  const sentTo = useSelector((state: RootState) => state.auth.magicLinkSentTo);
+  const [resendAvailableAt, setResendAvailableAt] = useState(0);
+  const resendSeconds = useCountdown(resendAvailableAt);
+
+  // Start from a clean slate every time this mode is opened
+  useEffect(() => {
+    dispatch(clearMagicLinkState());
+    return () => {
+      dispatch(clearMagicLinkState());
+    };
+  }, [dispatch]);
+
+  const sendLink = async (email: string) => {
+    try {
+      await dispatch(requestMagicLink({ email, next })).unwrap();
+      setResendAvailableAt(Date.now() + RESEND_COOLDOWN_MS);
+    } catch (err) {
+      console.error("Failed to request sign-in link:", err);
+      form.applyApiError(err);
+      const apiError = toApiError(err);
+      if (apiError.kind === "rateLimited" && apiError.retryAfterMs) {
+        setResendAvailableAt(Date.now() + apiError.retryAfterMs);
+      }
+    }
+  };
+
+  const handleSubmit = form.handleSubmit(({ email }) => sendLink(email));
+
+  if (sentTo) {
+    return (
+      <div className="space-y-4">
+        <div
+          className="bg-green-100 border border-green-400 text-green-700 px-4 py-3 rounded relative"
+          role="status"
+        >
+          <span className="block sm:inline">
+            Check your email. If an account exists for {sentTo}, we sent it a
+            link that signs you in. The link works once and expires soon.
+          </span>
+        </div>
+
+        {error && (
+          <p className="text-sm text-red-600" role="alert">
+            {error.message}
+          </p>
+        )}
+
+        <button
+          type="button"
+          onClick={() => sendLink(sentTo)}
+          disabled={status === "loading" || resendSeconds > 0}
+          className="w-full bg-blue-600 hover:bg-blue-700 text-white py-2 px-4 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 disabled:opacity-50"
+        >
+          {status === "loading"
+            ? "Sending..."
+            : resendSeconds > 0
+              ? `Resend link in ${resendSeconds}s`
+              : "Resend sign-in link"}
+        </button>
+
+        <div className="flex justify-between text-sm">
+          <button
+            type="button"
+            onClick={() => dispatch(clearMagicLinkState())}
+            className="text-blue-600 hover:text-blue-800"
+          >
+            Use a different email
+          </button>
+          <button
+            type="button"
+            onClick={onUsePassword}
+            className="text-blue-600 hover:text-blue-800"
+          >
+            Sign in with a password
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <form onSubmit={handleSubmit} noValidate className="space-y-4">
+      {error && !form.hasServerErrors && (
+        <div
+          className="bg-red-100 border border-red-400 text-red-700 px-4 py-3 rounded relative"
+          role="alert"
+        >
+          <span className="block sm:inline">{error.message}</span>
+        </div>
+      )}
+
+      <p className="text-sm text-gray-600 dark:text-gray-400">
+        We&apos;ll email you a link that signs you in, no password needed.
+      </p>
+
+      <FormField
+        label="Email"
+        type="email"
+        autoComplete="email"
+        error={form.errors.email}
+        {...form.getFieldProps("email")}
+      />
+
+      <button
+        type="submit"
+        disabled={status === "loading"}
+        className="w-full bg-blue-600 hover:bg-blue-700 text-white py-2 px-4 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 disabled:opacity-50"
+      >
+        {status === "loading" ? "Sending..." : "Email me a sign-in link"}
+      </button>
+
+      <div className="text-center">
+        <button
+          type="button"
+          onClick={onUsePassword}
+          className="text-sm text-blue-600 hover:text-blue-800"
+        >
+          Sign in with a password instead
+        </button>
+      </div>
+    </form>
+  );
+}
@@ -0,0 +1,86 @@
+"use client";
+
+import { useEffect, useRef } from "react";
+import { useDispatch, useSelector } from "react-redux";
+import { useRouter, useSearchParams } from "next/navigation";
+import Link from "next/link";
+import { verifyMagicLink } from "@/lib/redux/features/auth/authSlice";
+import { AppDispatch, RootState } from "@/lib/redux/store";
+import { ApiError } from "@/lib/api/errors";
+import { getSafeNextPath } from "@/lib/auth/routes";
+import { getPostLoginPath } from "@/lib/auth/lastRoute";
+
+const GENERIC_LINK_ERROR = "We couldn't sign you in with this link.";
+
+// The backend explains expired (410) and already used or unknown (400/401/404)
+// links itself; other server failures get a generic message
+function describeLinkError(error: ApiError | null) {
+  if (
+    !error ||
+    (error.kind === "server" && error.status !== 404 && error.status !== 410)
+  ) {
+    return GENERIC_LINK_ERROR;
+  }
+  return error.message;
+}
+
+// Landing page for the link in a sign-in email
+export default function MagicLinkSignIn() {
+  const searchParams = useSearchParams();
+  const token = searchParams.get("token");
+  const nextParam = searchParams.get("next");
+  const dispatch = useDispatch<AppDispatch>();
+  const router = useRouter();
+  const { status, error } = useSelector(
+    (state: RootState) => state.auth.magicLinkVerify
+  );
+  // Links are single use, so don't submit twice under Strict Mode
+  const submittedToken = useRef<string | null>(null);
+
+  useEffect(() => {
+    if (!token || submittedToken.current === token) {
+      return;
+    }
+    submittedToken.current = token;
+
+    dispatch(verifyMagicLink(token))
+      .unwrap()
+      .then((session) => {
+        router.replace(getPostLoginPath(nextParam, session.user?._id));
+      })
+      .catch((err) => {
+        // The error is rendered from the slice state below
+        console.error("Magic link sign-in failed:", err);
+      });
+  }, [dispatch, router, token, nextParam]);
+
+  if (token && status !== "failed") {
+    return (
+      <div className="w-full max-w-md p-6 bg-white dark:bg-gray-800 rounded-lg shadow-md text-center">
+        <div className="mb-4 w-12 h-12 border-4 border-blue-500 border-t-transparent rounded-full animate-spin mx-auto"></div>
+        <p className="text-gray-700 dark:text-gray-300">Signing you in...</p>
+      </div>
+    );
+  }
+
+  const newLinkHref = nextParam
+    ? `/auth/login?mode=magic&next=${encodeURIComponent(getSafeNextPath(nextParam))}`
+    : "/auth/login?mode=magic";
+
+  return (
+    <div className="w-full max-w-md p-6 bg-white dark:bg-gray-800 rounded-lg shadow-md text-center">
+      <h2 className="text-2xl font-bold mb-4">Link Expired or Invalid</h2>
+      <p className="text-gray-700 dark:text-gray-300 mb-6" role="alert">
+        {token
+          ? describeLinkError(error)
+          : "This sign-in link is missing its token."}
+      </p>
+      <Link
+        href={newLinkHref}
+        className="inline-block bg-blue-600 hover:bg-blue-700 text-white py-2 px-4 rounded-md"
+      >
+        Send me a new link
+      </Link>
+    </div>
+  );
+}
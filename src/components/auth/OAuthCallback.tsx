@@ -0,0 +1,75 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useDispatch } from "react-redux";
+import { useRouter } from "next/navigation";
+import Link from "next/link";
+import { AppDispatch } from "@/lib/redux/store";
+import { checkAuthStatus } from "@/lib/redux/features/auth/authSlice";
+import { publishSessionEvent } from "@/lib/auth/sessionChannel";
+import { buildLoginUrl } from "@/lib/auth/routes";
+import { getPostLoginPath } from "@/lib/auth/lastRoute";
+
+export default function OAuthCallback({
+  errorMessage,
+  next,
+}: {
+  // Set when the provider refused or the sign-in request couldn't be verified
+  errorMessage: string | null;
+  // Where sign-in was started from, if anywhere in particular
+  next: string | null;
+}) {
+  const dispatch = useDispatch<AppDispatch>();
+  const router = useRouter();
+  const [sessionError, setSessionError] = useState<string | null>(null);
+
+  const failure = errorMessage || sessionError;
+
+  // The backend has set the session cookie by now; load the user and go on
+  useEffect(() => {
+    if (errorMessage) {
+      return;
+    }
+
+    dispatch(checkAuthStatus())
+      .unwrap()
+      .then((session) => {
+        if (session.authenticated || session.user) {
+          publishSessionEvent({ type: "login" });
+          router.replace(getPostLoginPath(next, session.user?._id));
+        } else {
+          setSessionError(
+            "Sign-in didn't complete. Please try again from the login page."
+          );
+        }
+      })
+      .catch((err) => {
+        console.error("OAuth session check failed:", err);
+        setSessionError(err.message || "We couldn't sign you in.");
+      });
+  }, [dispatch, router, errorMessage, next]);
+
+  if (failure) {
+    return (
+      <div className="w-full max-w-md p-6 bg-white dark:bg-gray-800 rounded-lg shadow-md text-center">
+        <h2 className="text-2xl font-bold mb-4">Sign-in Failed</h2>
+        <p className="text-gray-700 dark:text-gray-300 mb-6" role="alert">
+          {failure}
+        </p>
+        <Link
+          href={buildLoginUrl(next ?? undefined)}
+          className="inline-block bg-blue-600 hover:bg-blue-700 text-white py-2 px-4 rounded-md"
+        >
+          Back to login
+        </Link>
+      </div>
+    );
+  }
+
+  return (
+    <div className="bg-white dark:bg-gray-800 p-6 rounded-lg shadow-lg text-center">
+      <div className="mb-4 w-12 h-12 border-4 border-blue-500 border-t-transparent rounded-full animate-spin mx-auto"></div>
+      <p className="text-gray-700 dark:text-gray-300">Signing you in...</p>
+    </div>
+  );
+}
@@ -1,136 +1,95 @@
 "use client";
 
-import { useState } from "react";
 import { useDispatch, useSelector } from "react-redux";
 import { useRouter } from "next/navigation";
-import { registerUser } from "@/lib/redux/features/auth/authSlice";
-import { AppDispatch, RootState } from "@/lib/redux/store";
+import {
+  registerUser,
+  selectRegisterError,
+  selectRegisterStatus,
+} from "@/lib/redux/features/auth/authSlice";
+import { AppDispatch } from "@/lib/redux/store";
+import { useForm } from "@/lib/forms/useForm";
+import { RegisterValues, registerSchema } from "@/lib/forms/schemas";
 import Link from "next/link";
+import SocialLoginButtons from "./SocialLoginButtons";
+import FormField from "@/components/forms/FormField";
+import PasswordStrengthMeter from "@/components/forms/PasswordStrengthMeter";
 
 export default function RegisterForm() {
-  const [name, setName] = useState("");
-  const [email, setEmail] = useState("");
-  const [password, setPassword] = useState("");
-  const [confirmPassword, setConfirmPassword] = useState("");
-  const [passwordError, setPasswordError] = useState("");
+  const form = useForm<RegisterValues>({
+    initialValues: { name: "", email: "", password: "", confirmPassword: "" },
+    schema: registerSchema,
+  });
 
   const dispatch = useDispatch<AppDispatch>();
   const router = useRouter();
 
-  const { status, error } = useSelector((state: RootState) => state.auth);
-
-  const validateForm = () => {
-    if (password !== confirmPassword) {
-      setPasswordError("Passwords don't match");
-      return false;
-    }
-
-    if (password.length < 6) {
-      setPasswordError("Password must be at least 6 characters");
-      return false;
-    }
-
-    setPasswordError("");
-    return true;
-  };
-
-  const handleSubmit = async (e: React.FormEvent) => {
-    e.preventDefault();
-
-    if (!validateForm()) return;
+  const status = useSelector(selectRegisterStatus);
+  const error = useSelector(selectRegisterError);
 
+  const handleSubmit = form.handleSubmit(async ({ name, email, password }) => {
     try {
-      await dispatch(registerUser({ name, email, password })).unwrap();
-      router.push("/dashboard");
+      const { user } = await dispatch(
+        registerUser({ name, email, password })
+      ).unwrap();
+      if (user.emailVerified === false) {
+        router.push(`/auth/check-email?email=${encodeURIComponent(email)}`);
+      } else {
+        router.push("/dashboard");
+      }
     } catch (err) {
       console.error("Failed to register:", err);
+      form.applyApiError(err);
     }
-  };
+  });
 
   return (
     <div className="w-full max-w-md p-6 bg-white dark:bg-gray-800 rounded-lg shadow-md">
       <h2 className="text-2xl font-bold mb-6 text-center">Create an Account</h2>
 
-      <form onSubmit={handleSubmit} className="space-y-4">
-        {error && (
+      <form onSubmit={handleSubmit} noValidate className="space-y-4">
+        {error && !form.hasServerErrors && (
           <div
             className="bg-red-100 border border-red-400 text-red-700 px-4 py-3 rounded relative"
             role="alert"
           >
-            <span className="block sm:inline">{error}</span>
+            <span className="block sm:inline">{error.message}</span>
           </div>
         )}
 
-        <div>
-          <label
-            htmlFor="name"
-            className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1"
-          >
-            Full Name
-          </label>
-          <input
-            id="name"
-            type="text"
-            value={name}
-            onChange={(e) => setName(e.target.value)}
-            required
-            className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm focus:outline-none focus:ring-primary-500 focus:border-primary-500"
-          />
-        </div>
-
-        <div>
-          <label
-            htmlFor="email"
-            className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1"
-          >
-            Email
-          </label>
-          <input
-            id="email"
-            type="email"
-            value={email}
-            onChange={(e) => setEmail(e.target.value)}
-            required
-            className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm focus:outline-none focus:ring-primary-500 focus:border-primary-500"
-          />
-        </div>
+        <FormField
+          label="Full Name"
+          type="text"
+          autoComplete="name"
+          error={form.errors.name}
+          {...form.getFieldProps("name")}
+        />
+
+        <FormField
+          label="Email"
+          type="email"
+          autoComplete="email"
+          error={form.errors.email}
+          {...form.getFieldProps("email")}
+        />
+
+        <FormField
+          label="Password"
+          type="password"
+          autoComplete="new-password"
+          error={form.errors.password}
+          {...form.getFieldProps("password")}
+        >
+          <PasswordStrengthMeter password={form.values.password} />
+        </FormField>
 
-        <div>
-          <label
-            htmlFor="password"
-            className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1"
-          >
-            Password
-          </label>
-          <input
-            id="password"
-            type="password"
-            value={password}
-            onChange={(e) => setPassword(e.target.value)}
-            required
-            className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm focus:outline-none focus:ring-primary-500 focus:border-primary-500"
-          />
-        </div>
-
-        <div>
-          <label
-            htmlFor="confirmPassword"
-            className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1"
-          >
-            Confirm Password
-          </label>
-          <input
-            id="confirmPassword"
-            type="password"
-            value={confirmPassword}
-            onChange={(e) => setConfirmPassword(e.target.value)}
-            required
-            className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm focus:outline-none focus:ring-primary-500 focus:border-primary-500"
-          />
-          {passwordError && (
-            <p className="mt-1 text-sm text-red-600">{passwordError}</p>
-          )}
-        </div>
+        <FormField
+          label="Confirm Password"
+          type="password"
+          autoComplete="new-password"
+          error={form.errors.confirmPassword}
+          {...form.getFieldProps("confirmPassword")}
+        />
 
         <button
           type="submit"
@@ -141,34 +100,7 @@ export default function RegisterForm() {
         </button>
       </form>
 
-      <div className="mt-6">
-        <div className="relative">
-          <div className="absolute inset-0 flex items-center">
-            <div className="w-full border-t border-gray-300"></div>
-          </div>
-          <div className="relative flex justify-center text-sm">
-            <span className="px-2 bg-white dark:bg-gray-800 text-gray-500">
-              Or continue with
-            </span>
-          </div>
-        </div>
-
-        <div className="mt-6">
-          <a
-            href="/api/auth/google-login"
-            className="w-full inline-flex justify-center py-2 px-4 border border-gray-300 rounded-md shadow-sm bg-white text-sm font-medium text-gray-700 hover:bg-gray-50"
-          >
-            <svg
-              className="w-5 h-5 mr-2"
-              fill="currentColor"
-              viewBox="0 0 24 24"
-            >
-              <path d="M12.545,10.239v3.821h5.445c-0.712,2.315-2.647,3.972-5.445,3.972c-3.332,0-6.033-2.701-6.033-6.032s2.701-6.032,6.033-6.032c1.498,0,2.866,0.549,3.921,1.453l2.814-2.814C17.503,2.988,15.139,2,12.545,2C7.021,2,2.543,6.477,2.543,12s4.478,10,10.002,10c8.396,0,10.249-7.85,9.426-11.748L12.545,10.239z" />
-            </svg>
-            Google
-          </a>
-        </div>
-      </div>
+      <SocialLoginButtons />
 
       <div className="mt-6 text-center">
         <p className="text-sm text-gray-600 dark:text-gray-400">
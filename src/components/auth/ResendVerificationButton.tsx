@@ -0,0 +1,77 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useDispatch, useSelector } from "react-redux";
+import {
+  clearEmailVerificationState,
+  resendVerificationEmail,
+} from "@/lib/redux/features/auth/authSlice";
+import { AppDispatch, RootState } from "@/lib/redux/store";
+import { useCountdown } from "@/lib/auth/useCountdown";
+
+// How long to wait between verification emails
+const RESEND_COOLDOWN_MS = 60 * 1000;
+
+// Resends the verification email, then locks itself for a minute so the
+// inbox doesn't fill up. Pass `justSent` when an email went out moments ago,
+// e.g. right after registering.
+export default function ResendVerificationButton({
+  email,
+  justSent = false,
+}: {
+  email: string;
+  justSent?: boolean;
+}) {
+  const dispatch = useDispatch<AppDispatch>();
+  const { status, error } = useSelector(
+    (state: RootState) => state.auth.verificationResend
+  );
+  const [availableAt, setAvailableAt] = useState(() =>
+    justSent ? Date.now() + RESEND_COOLDOWN_MS : 0
+  );
+  const remainingSeconds = useCountdown(availableAt);
+
+  useEffect(() => {
+    dispatch(clearEmailVerificationState());
+    return () => {
+      dispatch(clearEmailVerificationState());
+    };
+  }, [dispatch]);
+
+  const handleResend = async () => {
+    try {
+      await dispatch(resendVerificationEmail(email)).unwrap();
+      setAvailableAt(Date.now() + RESEND_COOLDOWN_MS);
+    } catch (err) {
+      // The error is rendered from the slice state below
+      console.error("Failed to resend verification email:", err);
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      {status === "succeeded" && (
+        <p className="text-sm text-green-700" role="status">
+          A new verification email is on its way.
+        </p>
+      )}
+      {error && (
+        <p className="text-sm text-red-600" role="alert">
+          {error.message}
+        </p>
+      )}
+      <button
+        type="button"
+        onClick={handleResend}
+        disabled={!email || status === "loading" || remainingSeconds > 0}
+        className="w-full bg-blue-600 hover:bg-blue-700 text-white py-2 px-4 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 disabled:opacity-50"
+      >
+        {status === "loading"
+          ? "Sending..."
+          : remainingSeconds > 0
+            ? `Resend email in ${remainingSeconds}s`
+            : "Resend verification email"}
+      </button>
+    </div>
+  );
+}
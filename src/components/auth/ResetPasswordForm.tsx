@@ -0,0 +1,133 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useDispatch, useSelector } from "react-redux";
+import { useRouter, useSearchParams } from "next/navigation";
+import {
+  clearPasswordResetState,
+  resetPassword,
+} from "@/lib/redux/features/auth/authSlice";
+import { AppDispatch, RootState } from "@/lib/redux/store";
+import { ApiError, isApiError } from "@/lib/api/errors";
+import { useForm } from "@/lib/forms/useForm";
+import { ResetPasswordValues, resetPasswordSchema } from "@/lib/forms/schemas";
+import Link from "next/link";
+import FormField from "@/components/forms/FormField";
+
+// The backend rejects unknown, used or expired tokens with 400/401/404/410.
+// Anything it reports against newPassword is a password problem instead.
+function isInvalidTokenError(error: ApiError) {
+  switch (error.kind) {
+    case "validation":
+      return !error.fieldErrors.newPassword;
+    case "unauthorized":
+      return true;
+    case "server":
+      return error.status === 404 || error.status === 410;
+    default:
+      return false;
+  }
+}
+
+export default function ResetPasswordForm() {
+  const searchParams = useSearchParams();
+  const token = searchParams.get("token");
+  const form = useForm<ResetPasswordValues>({
+    initialValues: { password: "", confirmPassword: "" },
+    schema: resetPasswordSchema,
+    serverFieldNames: { newPassword: "password" },
+  });
+  const [tokenInvalid, setTokenInvalid] = useState(false);
+
+  const dispatch = useDispatch<AppDispatch>();
+  const router = useRouter();
+
+  const { status, error } = useSelector(
+    (state: RootState) => state.auth.passwordReset
+  );
+
+  useEffect(() => {
+    dispatch(clearPasswordResetState());
+    return () => {
+      dispatch(clearPasswordResetState());
+    };
+  }, [dispatch]);
+
+  const handleSubmit = form.handleSubmit(async ({ password }) => {
+    if (!token) return;
+
+    try {
+      await dispatch(
+        resetPassword({ resetToken: token, newPassword: password })
+      ).unwrap();
+      router.replace("/auth/login?reset=success");
+    } catch (err) {
+      console.error("Failed to reset password:", err);
+      setTokenInvalid(isApiError(err) && isInvalidTokenError(err));
+      form.applyApiError(err);
+    }
+  });
+
+  // Without a usable token there is nothing to submit, only a way back
+  if (!token || tokenInvalid) {
+    return (
+      <div className="w-full max-w-md p-6 bg-white dark:bg-gray-800 rounded-lg shadow-md text-center">
+        <h2 className="text-2xl font-bold mb-4">Link Expired or Invalid</h2>
+        <p className="text-gray-700 dark:text-gray-300 mb-6">
+          {token
+            ? "This password reset link has expired or has already been used."
+            : "This password reset link is missing its token."}
+        </p>
+        <Link
+          href="/auth/forgot-password"
+          className="inline-block bg-blue-600 hover:bg-blue-700 text-white py-2 px-4 rounded-md"
+        >
+          Request a new link
+        </Link>
+      </div>
+    );
+  }
+
+  return (
+    <div className="w-full max-w-md p-6 bg-white dark:bg-gray-800 rounded-lg shadow-md">
+      <h2 className="text-2xl font-bold mb-6 text-center">
+        Choose a New Password
+      </h2>
+
+      <form onSubmit={handleSubmit} noValidate className="space-y-4">
+        {error && !form.hasServerErrors && (
+          <div
+            className="bg-red-100 border border-red-400 text-red-700 px-4 py-3 rounded relative"
+            role="alert"
+          >
+            <span className="block sm:inline">{error.message}</span>
+          </div>
+        )}
+
+        <FormField
+          label="New Password"
+          type="password"
+          autoComplete="new-password"
+          error={form.errors.password}
+          {...form.getFieldProps("password")}
+        />
+
+        <FormField
+          label="Confirm New Password"
+          type="password"
+          autoComplete="new-password"
+          error={form.errors.confirmPassword}
+          {...form.getFieldProps("confirmPassword")}
+        />
+
+        <button
+          type="submit"
+          disabled={status === "loading"}
+          className="w-full bg-blue-600 hover:bg-blue-700 text-white py-2 px-4 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 disabled:opacity-50"
+        >
+          {status === "loading" ? "Saving..." : "Reset password"}
+        </button>
+      </form>
+    </div>
+  );
+}
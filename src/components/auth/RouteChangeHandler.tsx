@@ -0,0 +1,19 @@
+"use client";
+
+import { useEffect } from "react";
+import { useDispatch } from "react-redux";
+import { usePathname } from "next/navigation";
+import { AppDispatch } from "@/lib/redux/store";
+import { clearRequestErrors } from "@/lib/redux/features/auth/authSlice";
+
+// Errors belong to the page they happened on, so clear them on navigation
+export default function RouteChangeHandler() {
+  const dispatch = useDispatch<AppDispatch>();
+  const pathname = usePathname();
+
+  useEffect(() => {
+    dispatch(clearRequestErrors());
+  }, [dispatch, pathname]);
+
+  return null;
+}
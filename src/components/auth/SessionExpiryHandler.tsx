@@ -0,0 +1,37 @@
+"use client";
+
+import { useEffect } from "react";
+import { useDispatch, useStore } from "react-redux";
+import { useRouter } from "next/navigation";
+import { AppDispatch, RootState } from "@/lib/redux/store";
+import { expireSession } from "@/lib/redux/features/auth/authSlice";
+import { authApi } from "@/lib/redux/features/auth/authApi";
+import { attachSessionExpiryInterceptor } from "@/lib/api/interceptors";
+import { buildLoginUrl } from "@/lib/auth/routes";
+
+// Sends the user back to login, with a way back to the current page, as soon
+// as any API call reports that the session is gone
+export default function SessionExpiryHandler() {
+  const dispatch = useDispatch<AppDispatch>();
+  const store = useStore<RootState>();
+  const router = useRouter();
+
+  useEffect(() => {
+    return attachSessionExpiryInterceptor(() => {
+      // Several requests can fail at once; only react to the first
+      if (!store.getState().auth.isAuthenticated) {
+        return;
+      }
+
+      console.log("Session expired, redirecting to login");
+      dispatch(expireSession());
+      // Drop the cached session so nothing keeps rendering the old user
+      dispatch(authApi.util.invalidateTags(["Session", "Profile"]));
+
+      const { pathname, search } = window.location;
+      router.replace(buildLoginUrl(`${pathname}${search}`));
+    });
+  }, [dispatch, store, router]);
+
+  return null;
+}
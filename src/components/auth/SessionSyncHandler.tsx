@@ -0,0 +1,50 @@
+"use client";
+
+import { useEffect } from "react";
+import { useDispatch } from "react-redux";
+import { AppDispatch } from "@/lib/redux/store";
+import {
+  checkAuthStatus,
+  sessionEndedInOtherTab,
+} from "@/lib/redux/features/auth/authSlice";
+import { authApi } from "@/lib/redux/features/auth/authApi";
+import { subscribeToSessionEvents } from "@/lib/auth/sessionChannel";
+
+// Applies session changes made in other tabs and re-checks the session when
+// this tab becomes visible again after being hidden
+export default function SessionSyncHandler() {
+  const dispatch = useDispatch<AppDispatch>();
+
+  useEffect(() => {
+    return subscribeToSessionEvents((event) => {
+      console.log("Session event from another tab:", event.type);
+      if (event.type === "login") {
+        dispatch(checkAuthStatus());
+      } else {
+        dispatch(sessionEndedInOtherTab(event.type));
+        dispatch(authApi.util.invalidateTags(["Session", "Profile"]));
+      }
+    });
+  }, [dispatch]);
+
+  useEffect(() => {
+    let wasHidden = document.visibilityState === "hidden";
+
+    const handleVisibilityChange = () => {
+      if (document.visibilityState === "hidden") {
+        wasHidden = true;
+        return;
+      }
+      if (wasHidden) {
+        wasHidden = false;
+        dispatch(checkAuthStatus());
+      }
+    };
+
+    document.addEventListener("visibilitychange", handleVisibilityChange);
+    return () =>
+      document.removeEventListener("visibilitychange", handleVisibilityChange);
+  }, [dispatch]);
+
+  return null;
+}
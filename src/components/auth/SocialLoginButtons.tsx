@@ -0,0 +1,48 @@
+import {
+  getEnabledProviders,
+  getProviderLoginHref,
+} from "@/lib/auth/oauthProviders";
+
+// "Or continue with" block listing every enabled social login provider
+export default function SocialLoginButtons({ next }: { next?: string }) {
+  const providers = getEnabledProviders();
+
+  if (providers.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="mt-6">
+      <div className="relative">
+        <div className="absolute inset-0 flex items-center">
+          <div className="w-full border-t border-gray-300"></div>
+        </div>
+        <div className="relative flex justify-center text-sm">
+          <span className="px-2 bg-white dark:bg-gray-800 text-gray-500">
+            Or continue with
+          </span>
+        </div>
+      </div>
+
+      <div className="mt-6 space-y-2">
+        {providers.map((provider) => (
+          <a
+            key={provider.id}
+            href={getProviderLoginHref(provider.id, next)}
+            className="w-full inline-flex justify-center py-2 px-4 border border-gray-300 rounded-md shadow-sm bg-white text-sm font-medium text-gray-700 hover:bg-gray-50"
+          >
+            <svg
+              className="w-5 h-5 mr-2"
+              fill="currentColor"
+              viewBox="0 0 24 24"
+              aria-hidden="true"
+            >
+              <path d={provider.icon} />
+            </svg>
+            {provider.label}
+          </a>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,250 @@
+"use client";
+
+import { useState } from "react";
+import { useSelector } from "react-redux";
+import { RootState } from "@/lib/redux/store";
+import {
+  TwoFactorSetupResponse,
+  useDisableTwoFactorMutation,
+  useEnableTwoFactorMutation,
+  useRegenerateRecoveryCodesMutation,
+  useStartTwoFactorSetupMutation,
+} from "@/lib/redux/features/auth/authApi";
+import { toApiError } from "@/lib/api/errors";
+
+function RecoveryCodeList({
+  codes,
+  onDone,
+}: {
+  codes: string[];
+  onDone: () => void;
+}) {
+  return (
+    <div className="space-y-4">
+      <div
+        className="bg-yellow-100 border border-yellow-400 text-yellow-800 px-4 py-3 rounded relative"
+        role="status"
+      >
+        <span className="block sm:inline">
+          Save these recovery codes somewhere safe. Each one can be used once to
+          sign in if you lose access to your authenticator app, and they
+          won&apos;t be shown again.
+        </span>
+      </div>
+      <ul className="grid grid-cols-2 gap-2 font-mono text-sm bg-gray-50 dark:bg-gray-700 p-4 rounded">
+        {codes.map((code) => (
+          <li key={code}>{code}</li>
+        ))}
+      </ul>
+      <button
+        type="button"
+        onClick={onDone}
+        className="w-full bg-blue-600 hover:bg-blue-700 text-white py-2 px-4 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2"
+      >
+        I&apos;ve saved my codes
+      </button>
+    </div>
+  );
+}
+
+export default function TwoFactorSettings() {
+  const enabled = useSelector(
+    (state: RootState) => !!state.auth.user?.twoFactorEnabled
+  );
+  const [setup, setSetup] = useState<TwoFactorSetupResponse | null>(null);
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+  const [code, setCode] = useState("");
+  const [actionError, setActionError] = useState("");
+
+  const [startSetup, { isLoading: isStarting }] =
+    useStartTwoFactorSetupMutation();
+  const [enableTwoFactor, { isLoading: isEnabling }] =
+    useEnableTwoFactorMutation();
+  const [disableTwoFactor, { isLoading: isDisabling }] =
+    useDisableTwoFactorMutation();
+  const [regenerateRecoveryCodes, { isLoading: isRegenerating }] =
+    useRegenerateRecoveryCodesMutation();
+  const isBusy = isStarting || isEnabling || isDisabling || isRegenerating;
+
+  // Run one of the 2FA requests, showing its error under the form
+  const run = async <T,>(request: () => Promise<T>) => {
+    setActionError("");
+    try {
+      return await request();
+    } catch (err) {
+      console.error("Two-factor settings error:", err);
+      setActionError(toApiError(err).message);
+      return null;
+    }
+  };
+
+  const handleStartSetup = async () => {
+    const result = await run(() => startSetup().unwrap());
+    if (result) {
+      setSetup(result);
+      setCode("");
+    }
+  };
+
+  const handleEnable = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const result = await run(() =>
+      enableTwoFactor({ code: code.trim() }).unwrap()
+    );
+    if (result) {
+      setSetup(null);
+      setCode("");
+      setRecoveryCodes(result.recoveryCodes);
+    }
+  };
+
+  const handleRegenerate = async () => {
+    const result = await run(() =>
+      regenerateRecoveryCodes({ code: code.trim() }).unwrap()
+    );
+    if (result) {
+      setCode("");
+      setRecoveryCodes(result.recoveryCodes);
+    }
+  };
+
+  const handleDisable = async () => {
+    const result = await run(async () => {
+      await disableTwoFactor({ code: code.trim() }).unwrap();
+      return true;
+    });
+    if (result) {
+      setCode("");
+    }
+  };
+
+  const codeInput = (
+    <div>
+      <label
+        htmlFor="twoFactorCode"
+        className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1"
+      >
+        Authentication Code
+      </label>
+      <input
+        id="twoFactorCode"
+        type="text"
+        autoComplete="one-time-code"
+        inputMode="numeric"
+        pattern="[0-9]{6}"
+        maxLength={6}
+        value={code}
+        onChange={(e) => setCode(e.target.value)}
+        required
+        className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm focus:outline-none focus:ring-primary-500 focus:border-primary-500"
+      />
+      {actionError && (
+        <p className="mt-1 text-sm text-red-600">{actionError}</p>
+      )}
+    </div>
+  );
+
+  if (recoveryCodes) {
+    return (
+      <RecoveryCodeList
+        codes={recoveryCodes}
+        onDone={() => setRecoveryCodes(null)}
+      />
+    );
+  }
+
+  if (enabled) {
+    return (
+      <div className="space-y-4">
+        <p className="text-sm text-gray-600 dark:text-gray-400">
+          Two-factor authentication is <strong>on</strong>. Enter a code from
+          your authenticator app to get new recovery codes or to turn it off.
+        </p>
+        {codeInput}
+        <div className="flex gap-3">
+          <button
+            type="button"
+            onClick={handleRegenerate}
+            disabled={isBusy || !code}
+            className="flex-1 bg-blue-600 hover:bg-blue-700 text-white py-2 px-4 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 disabled:opacity-50"
+          >
+            {isRegenerating ? "Generating..." : "New recovery codes"}
+          </button>
+          <button
+            type="button"
+            onClick={handleDisable}
+            disabled={isBusy || !code}
+            className="flex-1 bg-red-600 hover:bg-red-700 text-white py-2 px-4 rounded-md focus:outline-none focus:ring-2 focus:ring-red-500 focus:ring-offset-2 disabled:opacity-50"
+          >
+            {isDisabling ? "Turning off..." : "Turn off"}
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  if (setup) {
+    return (
+      <form onSubmit={handleEnable} className="space-y-4">
+        <p className="text-sm text-gray-600 dark:text-gray-400">
+          Scan this QR code with your authenticator app, then enter the code it
+          shows to finish setting up.
+        </p>
+        {setup.qrCodeDataUrl && (
+          // A data URL from the backend, which next/image can't optimize
+          // eslint-disable-next-line @next/next/no-img-element
+          <img
+            src={setup.qrCodeDataUrl}
+            alt="QR code for your authenticator app"
+            width={192}
+            height={192}
+            className="mx-auto bg-white p-2 rounded"
+          />
+        )}
+        <p className="text-sm text-gray-600 dark:text-gray-400">
+          Can&apos;t scan it? Enter this key manually:{" "}
+          <code className="font-mono break-all">{setup.secret}</code>
+        </p>
+        {codeInput}
+        <div className="flex gap-3">
+          <button
+            type="submit"
+            disabled={isBusy}
+            className="flex-1 bg-blue-600 hover:bg-blue-700 text-white py-2 px-4 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 disabled:opacity-50"
+          >
+            {isEnabling ? "Verifying..." : "Turn on"}
+          </button>
+          <button
+            type="button"
+            onClick={() => setSetup(null)}
+            className="flex-1 bg-gray-200 hover:bg-gray-300 text-gray-800 py-2 px-4 rounded-md"
+          >
+            Cancel
+          </button>
+        </div>
+      </form>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <p className="text-sm text-gray-600 dark:text-gray-400">
+        Protect your account with a code from an authenticator app in addition
+        to your password.
+      </p>
+      {actionError && (
+        <p className="text-sm text-red-600" role="alert">
+          {actionError}
+        </p>
+      )}
+      <button
+        type="button"
+        onClick={handleStartSetup}
+        disabled={isBusy}
+        className="w-full bg-blue-600 hover:bg-blue-700 text-white py-2 px-4 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 disabled:opacity-50"
+      >
+        {isStarting ? "Starting..." : "Set up two-factor authentication"}
+      </button>
+    </div>
+  );
+}
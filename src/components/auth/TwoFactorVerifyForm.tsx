@@ -0,0 +1,162 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useDispatch, useSelector } from "react-redux";
+import { useRouter, useSearchParams } from "next/navigation";
+import Link from "next/link";
+import {
+  clearTwoFactorChallenge,
+  verifyTwoFactor,
+} from "@/lib/redux/features/auth/authSlice";
+import { AppDispatch, RootState } from "@/lib/redux/store";
+import { buildLoginUrl, getSafeNextPath } from "@/lib/auth/routes";
+import { getPostLoginPath } from "@/lib/auth/lastRoute";
+
+export default function TwoFactorVerifyForm() {
+  const [code, setCode] = useState("");
+  const [useRecoveryCode, setUseRecoveryCode] = useState(false);
+  const dispatch = useDispatch<AppDispatch>();
+  const router = useRouter();
+  const searchParams = useSearchParams();
+  const nextParam = searchParams.get("next");
+  const loginUrl = buildLoginUrl(
+    nextParam ? getSafeNextPath(nextParam) : undefined
+  );
+
+  const { twoFactorChallenge, isAuthenticated, user } = useSelector(
+    (state: RootState) => state.auth
+  );
+  const { status, error } = useSelector(
+    (state: RootState) => state.auth.twoFactorVerify
+  );
+
+  const userId = user?._id;
+  useEffect(() => {
+    if (isAuthenticated) {
+      router.push(getPostLoginPath(nextParam, userId));
+    }
+  }, [isAuthenticated, router, nextParam, userId]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const value = code.trim();
+    try {
+      await dispatch(
+        verifyTwoFactor(
+          useRecoveryCode ? { recoveryCode: value } : { code: value }
+        )
+      ).unwrap();
+      // The redirect will happen in the useEffect above
+    } catch (err) {
+      // The error is rendered from the slice state below
+      console.error("Failed to verify two-factor code:", err);
+      setCode("");
+    }
+  };
+
+  const toggleMode = () => {
+    setUseRecoveryCode(!useRecoveryCode);
+    setCode("");
+  };
+
+  // The challenge only lives in memory, so a reload or a direct visit has
+  // nothing to verify against
+  if (!twoFactorChallenge && !isAuthenticated) {
+    return (
+      <div className="w-full max-w-md p-6 bg-white dark:bg-gray-800 rounded-lg shadow-md text-center">
+        <h2 className="text-2xl font-bold mb-4">Verification expired</h2>
+        <p className="text-gray-600 dark:text-gray-400 mb-6">
+          Your sign-in attempt is no longer active. Please log in again.
+        </p>
+        <Link
+          href={loginUrl}
+          className="font-medium text-blue-600 hover:text-blue-500"
+        >
+          Back to login
+        </Link>
+      </div>
+    );
+  }
+
+  return (
+    <div className="w-full max-w-md p-6 bg-white dark:bg-gray-800 rounded-lg shadow-md">
+      <h2 className="text-2xl font-bold mb-2 text-center">
+        Two-Factor Authentication
+      </h2>
+      <p className="text-sm text-gray-600 dark:text-gray-400 mb-6 text-center">
+        {useRecoveryCode
+          ? "Enter one of the recovery codes you saved when you set up two-factor authentication."
+          : "Enter the 6-digit code from your authenticator app."}
+        {twoFactorChallenge && (
+          <span className="block mt-1">
+            Signing in as {twoFactorChallenge.email}
+          </span>
+        )}
+      </p>
+
+      <form onSubmit={handleSubmit} className="space-y-4">
+        {error && (
+          <div
+            className="bg-red-100 border border-red-400 text-red-700 px-4 py-3 rounded relative"
+            role="alert"
+          >
+            <span className="block sm:inline">{error.message}</span>
+          </div>
+        )}
+
+        <div>
+          <label
+            htmlFor="code"
+            className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1"
+          >
+            {useRecoveryCode ? "Recovery Code" : "Authentication Code"}
+          </label>
+          <input
+            id="code"
+            type="text"
+            autoComplete="one-time-code"
+            inputMode={useRecoveryCode ? "text" : "numeric"}
+            pattern={useRecoveryCode ? undefined : "[0-9]{6}"}
+            maxLength={useRecoveryCode ? undefined : 6}
+            value={code}
+            onChange={(e) => setCode(e.target.value)}
+            required
+            autoFocus
+            className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm focus:outline-none focus:ring-primary-500 focus:border-primary-500"
+          />
+        </div>
+
+        <button
+          type="submit"
+          disabled={status === "loading"}
+          className="w-full bg-blue-600 hover:bg-blue-700 text-white py-2 px-4 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 disabled:opacity-50"
+        >
+          {status === "loading" ? "Verifying..." : "Verify"}
+        </button>
+      </form>
+
+      <div className="mt-4 text-center">
+        <button
+          type="button"
+          onClick={toggleMode}
+          className="text-sm text-blue-600 hover:text-blue-800"
+        >
+          {useRecoveryCode
+            ? "Use your authenticator app instead"
+            : "Use a recovery code instead"}
+        </button>
+      </div>
+
+      <div className="mt-6 text-center">
+        <Link
+          href={loginUrl}
+          onClick={() => dispatch(clearTwoFactorChallenge())}
+          className="text-sm font-medium text-gray-600 hover:text-gray-800 dark:text-gray-400"
+        >
+          Cancel and log in with a different account
+        </Link>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,82 @@
+"use client";
+
+import { useEffect, useRef } from "react";
+import { useDispatch, useSelector } from "react-redux";
+import { useSearchParams } from "next/navigation";
+import Link from "next/link";
+import { verifyEmail } from "@/lib/redux/features/auth/authSlice";
+import { AppDispatch, RootState } from "@/lib/redux/store";
+import ResendVerificationButton from "./ResendVerificationButton";
+
+// Landing page for the link in the verification email
+export default function VerifyEmail() {
+  const searchParams = useSearchParams();
+  const token = searchParams.get("token");
+  const dispatch = useDispatch<AppDispatch>();
+  const { user, isAuthenticated } = useSelector(
+    (state: RootState) => state.auth
+  );
+  const { status, error } = useSelector(
+    (state: RootState) => state.auth.emailVerify
+  );
+  // Tokens are single use, so don't submit twice under Strict Mode
+  const submittedToken = useRef<string | null>(null);
+
+  useEffect(() => {
+    if (token && submittedToken.current !== token) {
+      submittedToken.current = token;
+      dispatch(verifyEmail(token));
+    }
+  }, [dispatch, token]);
+
+  if (token && (status === "idle" || status === "loading")) {
+    return (
+      <div className="w-full max-w-md p-6 bg-white dark:bg-gray-800 rounded-lg shadow-md text-center">
+        <div className="mb-4 w-12 h-12 border-4 border-blue-500 border-t-transparent rounded-full animate-spin mx-auto"></div>
+        <p className="text-gray-700 dark:text-gray-300">
+          Verifying your email...
+        </p>
+      </div>
+    );
+  }
+
+  if (token && status === "succeeded") {
+    return (
+      <div className="w-full max-w-md p-6 bg-white dark:bg-gray-800 rounded-lg shadow-md text-center">
+        <h2 className="text-2xl font-bold mb-4">Email verified</h2>
+        <p className="text-gray-700 dark:text-gray-300 mb-6">
+          Thanks for confirming your email address.
+        </p>
+        <Link
+          href={isAuthenticated ? "/dashboard" : "/auth/login"}
+          className="inline-block bg-blue-600 hover:bg-blue-700 text-white py-2 px-4 rounded-md"
+        >
+          {isAuthenticated ? "Go to dashboard" : "Log in"}
+        </Link>
+      </div>
+    );
+  }
+
+  return (
+    <div className="w-full max-w-md p-6 bg-white dark:bg-gray-800 rounded-lg shadow-md text-center">
+      <h2 className="text-2xl font-bold mb-4">Link Expired or Invalid</h2>
+      <p className="text-gray-700 dark:text-gray-300 mb-6">
+        {token
+          ? error?.kind === "network"
+            ? error.message
+            : "This verification link has expired or has already been used."
+          : "This verification link is missing its token."}
+      </p>
+      {user?.email && user.emailVerified === false ? (
+        <ResendVerificationButton email={user.email} />
+      ) : (
+        <Link
+          href="/auth/login"
+          className="font-medium text-blue-600 hover:text-blue-500"
+        >
+          Log in to request a new link
+        </Link>
+      )}
+    </div>
+  );
+}
@@ -1,73 +1,124 @@
 "use client";
 
 import { useEffect } from "react";
-import { useRouter } from "next/navigation";
+import { usePathname, useRouter, useSearchParams } from "next/navigation";
 import { useSelector } from "react-redux";
 import { RootState } from "@/lib/redux/store";
+import { buildLoginUrl } from "@/lib/auth/routes";
+import { rememberLastRoute } from "@/lib/auth/lastRoute";
+import { selectSessionCheckStatus } from "@/lib/redux/features/auth/authSlice";
+import { AccessRequirements, meetsRequirements } from "@/lib/auth/permissions";
+import AccessDenied from "./AccessDenied";
+import EmailVerificationRequired from "./EmailVerificationRequired";
 
+export interface AuthGuardOptions extends AccessRequirements {
+  // Hold the page back until the user has confirmed their email address.
+  // Meant for pages that publish, such as an article editor; account and
+  // profile settings stay open to unverified users.
+  requireVerifiedEmail?: boolean;
+}
+
+// Pass `roles` (any one grants access) and/or `permissions` (all required)
+// to restrict a page beyond "signed in". Users who are signed in but don't
+// qualify get a 403 page instead of the login redirect, and unverified users
+// on `requireVerifiedEmail` pages get asked to verify.
 export default function withAuth<P extends object>(
-  Component: React.ComponentType<P>
+  Component: React.ComponentType<P>,
+  requirements: AuthGuardOptions = {}
 ) {
+  const hasRequirements = !!(
+    requirements.roles?.length ||
+    requirements.permissions?.length ||
+    requirements.requireVerifiedEmail
+  );
+
   return function AuthGuard(props: P) {
     const router = useRouter();
-    const { isAuthenticated, status } = useSelector(
+    const pathname = usePathname();
+    const searchParams = useSearchParams();
+    // The slice reflects logins, logouts and expiry as soon as they happen.
+    // Only the session check decides whether we know the answer yet; login,
+    // register and logout requests don't affect it.
+    const { isAuthenticated, user } = useSelector(
       (state: RootState) => state.auth
     );
+    const sessionCheckStatus = useSelector(selectSessionCheckStatus);
+    // Keep the query string, as the middleware does, so login comes back to
+    // the exact page
+    const query = searchParams.toString();
+    const currentPath = query ? `${pathname}?${query}` : pathname;
+    const loginUrl = buildLoginUrl(currentPath);
+
+    // The middleware has already validated the session before this page
+    // rendered, so only redirect once the client check definitely disagrees
+    const checkComplete =
+      sessionCheckStatus === "succeeded" || sessionCheckStatus === "failed";
 
-    // Simplify redirect logic
     useEffect(() => {
-      // Only redirect when auth is definitely not authenticated
-      if (status === "succeeded" && !isAuthenticated) {
+      if (checkComplete && !isAuthenticated) {
         console.log("Redirecting to login - not authenticated");
         // Use replace to prevent back navigation to protected route
-        router.replace("/auth/login");
+        router.replace(loginUrl);
       }
-    }, [isAuthenticated, status, router]);
+    }, [isAuthenticated, checkComplete, router, loginUrl]);
 
-    // During initial check or loading
-    if (status === "loading") {
-      return (
-        <div className="flex items-center justify-center min-h-screen bg-gray-100 dark:bg-gray-900">
-          <div className="bg-white dark:bg-gray-800 p-6 rounded-lg shadow-lg text-center">
-            <div className="mb-4 w-12 h-12 border-4 border-blue-500 border-t-transparent rounded-full animate-spin mx-auto"></div>
-            <p className="text-gray-700 dark:text-gray-300">
-              Checking authentication...
-            </p>
-          </div>
-        </div>
-      );
-    }
+    // Remember pages the user could actually see, so the next sign-in can
+    // bring them back here
+    const userId = user?._id;
+    const canView =
+      isAuthenticated &&
+      !!user &&
+      meetsRequirements(user, requirements) &&
+      (!requirements.requireVerifiedEmail || user.emailVerified !== false);
+    useEffect(() => {
+      if (userId && canView) {
+        rememberLastRoute(userId, currentPath);
+      }
+    }, [userId, canView, currentPath]);
 
-    // If authenticated, render the protected component
-    if (isAuthenticated) {
-      return <Component {...props} />;
-    }
+    if (hasRequirements) {
+      if (isAuthenticated && user) {
+        if (!meetsRequirements(user, requirements)) {
+          return <AccessDenied />;
+        }
+        if (requirements.requireVerifiedEmail && user.emailVerified === false) {
+          return <EmailVerificationRequired email={user.email} />;
+        }
+        return <Component {...props} />;
+      }
 
-    // If authentication check is complete but not authenticated
-    if (status === "succeeded" && !isAuthenticated) {
-      return (
-        <div className="flex items-center justify-center min-h-screen bg-gray-100 dark:bg-gray-900">
-          <div className="bg-white dark:bg-gray-800 p-6 rounded-lg shadow-lg text-center">
-            <p className="text-gray-700 dark:text-gray-300">
-              Please log in to access this page
-            </p>
-            <button
-              onClick={() => router.push("/auth/login")}
-              className="mt-4 bg-blue-600 hover:bg-blue-700 text-white py-2 px-4 rounded"
-            >
-              Go to login
-            </button>
+      // The middleware only vouches for the session, not for roles, so pages
+      // with requirements wait for the user before rendering
+      if (!checkComplete) {
+        return (
+          <div className="flex items-center justify-center min-h-screen bg-gray-100 dark:bg-gray-900">
+            <div className="bg-white dark:bg-gray-800 p-6 rounded-lg shadow-lg text-center">
+              <div className="mb-4 w-12 h-12 border-4 border-blue-500 border-t-transparent rounded-full animate-spin mx-auto"></div>
+              <p className="text-gray-700 dark:text-gray-300">
+                Checking permissions...
+              </p>
+            </div>
           </div>
-        </div>
-      );
+        );
+      }
+    } else if (isAuthenticated || !checkComplete) {
+      // Trust the server decision while the client check is still pending
+      return <Component {...props} />;
     }
 
-    // Default loading state
+    // Authentication check is complete but not authenticated
     return (
-      <div className="flex items-center justify-center min-h-screen">
-        <div className="text-center">
-          <div className="animate-spin h-10 w-10 border-4 border-blue-500 border-t-transparent rounded-full mx-auto mb-4"></div>
-          <p>Loading...</p>
+      <div className="flex items-center justify-center min-h-screen bg-gray-100 dark:bg-gray-900">
+        <div className="bg-white dark:bg-gray-800 p-6 rounded-lg shadow-lg text-center">
+          <p className="text-gray-700 dark:text-gray-300">
+            Please log in to access this page
+          </p>
+          <button
+            onClick={() => router.push(loginUrl)}
+            className="mt-4 bg-blue-600 hover:bg-blue-700 text-white py-2 px-4 rounded"
+          >
+            Go to login
+          </button>
         </div>
       </div>
     );
@@ -11,9 +11,9 @@ import {
 import { useState } from "react";
 
 export default function AuthDebugger() {
-  const { isAuthenticated, user, status, error } = useSelector(
-    (state: RootState) => state.auth
-  );
+  const { isAuthenticated, user, sessionCheck, login, register, logout } =
+    useSelector((state: RootState) => state.auth);
+  const error = sessionCheck.error || login.error || register.error;
   const dispatch = useDispatch<AppDispatch>();
   const [isOpen, setIsOpen] = useState(false);
   const [logoutMessage, setLogoutMessage] = useState("");
@@ -47,7 +47,14 @@ export default function AuthDebugger() {
             </h3>
             <div className="space-y-2 text-sm">
               <div>
-                <span className="font-semibold">Status:</span> {status}
+                <span className="font-semibold">Session check:</span>{" "}
+                {sessionCheck.status}
+              </div>
+              <div>
+                <span className="font-semibold">
+                  Login / register / logout:
+                </span>{" "}
+                {login.status} / {register.status} / {logout.status}
               </div>
               <div>
                 <span className="font-semibold">Authenticated:</span>{" "}
@@ -59,7 +66,8 @@ export default function AuthDebugger() {
               </div>
               {error && (
                 <div className="text-red-500">
-                  <span className="font-semibold">Error:</span> {error}
+                  <span className="font-semibold">Error:</span> {error.kind}:{" "}
+                  {error.message}
                 </div>
               )}
               <div className="flex flex-wrap gap-2 mt-4">
@@ -0,0 +1,26 @@
+"use client";
+
+import { useState } from "react";
+import { useCaptchaVerify } from "@/components/auth/CaptchaSlot";
+import { MOCK_CAPTCHA_TOKEN } from "@/lib/mock/captcha";
+
+// Stand-in CAPTCHA for the mock backend, mounted only while it is enabled
+export default function MockCaptchaWidget() {
+  const onVerify = useCaptchaVerify();
+  const [checked, setChecked] = useState(false);
+
+  return (
+    <label className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+      <input
+        type="checkbox"
+        checked={checked}
+        onChange={(e) => {
+          setChecked(e.target.checked);
+          onVerify(e.target.checked ? MOCK_CAPTCHA_TOKEN : null);
+        }}
+        className="h-4 w-4 text-blue-600 border-gray-300 rounded"
+      />
+      I&apos;m not a robot (mock backend)
+    </label>
+  );
+}
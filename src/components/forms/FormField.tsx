@@ -0,0 +1,48 @@
+"use client";
+
+const INPUT_CLASSES =
+  "w-full px-3 py-2 border rounded-md shadow-sm focus:outline-none focus:ring-primary-500 focus:border-primary-500";
+
+type FormFieldProps = React.InputHTMLAttributes<HTMLInputElement> & {
+  label: string;
+  error?: string;
+  // Rendered under the input, e.g. a hint or a strength meter
+  children?: React.ReactNode;
+};
+
+// Labelled input with its validation error, for use with useForm's
+// getFieldProps
+export default function FormField({
+  label,
+  error,
+  children,
+  id,
+  ...inputProps
+}: FormFieldProps) {
+  const errorId = error ? `${id}-error` : undefined;
+
+  return (
+    <div>
+      <label
+        htmlFor={id}
+        className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1"
+      >
+        {label}
+      </label>
+      <input
+        id={id}
+        aria-describedby={errorId}
+        className={`${INPUT_CLASSES} ${
+          error ? "border-red-500" : "border-gray-300 dark:border-gray-600"
+        }`}
+        {...inputProps}
+      />
+      {children}
+      {error && (
+        <p id={errorId} className="mt-1 text-sm text-red-600">
+          {error}
+        </p>
+      )}
+    </div>
+  );
+}
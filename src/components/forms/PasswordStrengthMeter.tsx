@@ -0,0 +1,41 @@
+"use client";
+
+import { getPasswordStrength } from "@/lib/auth/validation";
+
+const BAR_COLORS = [
+  "bg-red-500",
+  "bg-red-500",
+  "bg-yellow-500",
+  "bg-blue-500",
+  "bg-green-500",
+];
+
+export default function PasswordStrengthMeter({
+  password,
+}: {
+  password: string;
+}) {
+  if (!password) {
+    return null;
+  }
+
+  const { score, label } = getPasswordStrength(password);
+
+  return (
+    <div className="mt-2" aria-live="polite">
+      <div className="flex gap-1">
+        {[1, 2, 3, 4].map((step) => (
+          <div
+            key={step}
+            className={`h-1 flex-1 rounded ${
+              score >= step ? BAR_COLORS[score] : "bg-gray-200 dark:bg-gray-700"
+            }`}
+          />
+        ))}
+      </div>
+      <p className="mt-1 text-xs text-gray-600 dark:text-gray-400">
+        Password strength: {label}
+      </p>
+    </div>
+  );
+}
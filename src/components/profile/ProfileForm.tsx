@@ -0,0 +1,193 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useDispatch, useSelector } from "react-redux";
+import {
+  clearProfileUpdateState,
+  fetchProfile,
+  updatePreferredLanguages,
+  updateProfile,
+} from "@/lib/redux/features/auth/authSlice";
+import { AppDispatch, RootState } from "@/lib/redux/store";
+import { useForm } from "@/lib/forms/useForm";
+import {
+  ProfileValues,
+  profileSchema,
+  SKILL_LEVELS,
+} from "@/lib/forms/schemas";
+import FormField from "@/components/forms/FormField";
+
+const LANGUAGES = [
+  { value: "bangla", label: "Bangla" },
+  { value: "english", label: "English" },
+  { value: "hindi", label: "Hindi" },
+];
+
+export default function ProfileForm() {
+  const dispatch = useDispatch<AppDispatch>();
+  const { user, profileFetch, profileUpdate } = useSelector(
+    (state: RootState) => state.auth
+  );
+
+  const form = useForm<ProfileValues>({
+    initialValues: {
+      name: user?.name || "",
+      skillLevel: user?.skillLevel || "beginner",
+    },
+    schema: profileSchema,
+  });
+  const { reset } = form;
+  const [languages, setLanguages] = useState<string[]>(
+    user?.preferredLanguages || []
+  );
+
+  // Load the full profile, then seed the form from it
+  useEffect(() => {
+    dispatch(fetchProfile())
+      .unwrap()
+      .then((profile) => {
+        reset({
+          name: profile.name || "",
+          skillLevel: profile.skillLevel || "beginner",
+        });
+        setLanguages(profile.preferredLanguages || []);
+      })
+      .catch((err) => console.error("Failed to load profile:", err));
+
+    return () => {
+      dispatch(clearProfileUpdateState());
+    };
+  }, [dispatch, reset]);
+
+  const handleLanguagesChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
+    setLanguages(
+      Array.from(e.target.selectedOptions, (option) => option.value)
+    );
+  };
+
+  const current = user?.preferredLanguages || [];
+  const languagesChanged =
+    languages.length !== current.length ||
+    languages.some((language) => !current.includes(language));
+
+  const handleSubmit = form.handleSubmit(async (values) => {
+    try {
+      if (form.isDirty) {
+        await dispatch(updateProfile(values)).unwrap();
+        form.reset(values);
+      }
+
+      if (languagesChanged) {
+        await dispatch(updatePreferredLanguages(languages)).unwrap();
+      }
+    } catch (err) {
+      // The slice has already rolled the user back; keep the form input so
+      // the change can be retried
+      console.error("Failed to update profile:", err);
+      form.applyApiError(err);
+    }
+  });
+
+  if (profileFetch.status === "loading" && !user) {
+    return (
+      <p className="text-gray-700 dark:text-gray-300">Loading profile...</p>
+    );
+  }
+
+  return (
+    <form onSubmit={handleSubmit} noValidate className="space-y-4">
+      {profileFetch.error && (
+        <div
+          className="bg-red-100 border border-red-400 text-red-700 px-4 py-3 rounded relative"
+          role="alert"
+        >
+          <span className="block sm:inline">{profileFetch.error.message}</span>
+        </div>
+      )}
+
+      {profileUpdate.error && !form.hasServerErrors && (
+        <div
+          className="bg-red-100 border border-red-400 text-red-700 px-4 py-3 rounded relative"
+          role="alert"
+        >
+          <span className="block sm:inline">{profileUpdate.error.message}</span>
+        </div>
+      )}
+
+      {profileUpdate.status === "succeeded" && (
+        <div
+          className="bg-green-100 border border-green-400 text-green-700 px-4 py-3 rounded relative"
+          role="status"
+        >
+          <span className="block sm:inline">Your profile has been saved.</span>
+        </div>
+      )}
+
+      <FormField
+        label="Full Name"
+        type="text"
+        autoComplete="name"
+        error={form.errors.name}
+        {...form.getFieldProps("name")}
+      />
+
+      <div>
+        <label
+          htmlFor="skillLevel"
+          className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1"
+        >
+          Skill Level
+        </label>
+        <select
+          {...form.getFieldProps("skillLevel")}
+          className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm focus:outline-none focus:ring-primary-500 focus:border-primary-500"
+        >
+          {SKILL_LEVELS.map((level) => (
+            <option key={level.value} value={level.value}>
+              {level.label}
+            </option>
+          ))}
+        </select>
+        {form.errors.skillLevel && (
+          <p className="mt-1 text-sm text-red-600">{form.errors.skillLevel}</p>
+        )}
+      </div>
+
+      <div>
+        <label
+          htmlFor="preferredLanguages"
+          className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1"
+        >
+          Preferred Languages
+        </label>
+        <select
+          id="preferredLanguages"
+          multiple
+          value={languages}
+          onChange={handleLanguagesChange}
+          className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm focus:outline-none focus:ring-primary-500 focus:border-primary-500"
+        >
+          {LANGUAGES.map((language) => (
+            <option key={language.value} value={language.value}>
+              {language.label}
+            </option>
+          ))}
+        </select>
+        <p className="mt-1 text-xs text-gray-500">
+          Hold Ctrl (Cmd on Mac) to select more than one.
+        </p>
+      </div>
+
+      <button
+        type="submit"
+        disabled={
+          profileUpdate.status === "loading" ||
+          (!form.isDirty && !languagesChanged)
+        }
+        className="w-full bg-blue-600 hover:bg-blue-700 text-white py-2 px-4 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 disabled:opacity-50"
+      >
+        {profileUpdate.status === "loading" ? "Saving..." : "Save changes"}
+      </button>
+    </form>
+  );
+}
@@ -0,0 +1,42 @@
+"use client";
+
+import { useSelector } from "react-redux";
+import {
+  getPercentComplete,
+  selectAllCourseProgress,
+} from "@/lib/redux/features/progress/progressSlice";
+
+export default function ContinueLearningCard() {
+  // Courses are sorted most recently updated first
+  const courses = useSelector(selectAllCourseProgress);
+  const lastCourse = courses.find(
+    (course) => getPercentComplete(course) < 100 && course.lastLessonId
+  );
+
+  if (!lastCourse) {
+    return null;
+  }
+
+  return (
+    <div className="bg-purple-50 dark:bg-purple-900/30 p-4 rounded-lg">
+      <h3 className="font-medium mb-2 text-purple-800 dark:text-purple-300">
+        Continue where you left off
+      </h3>
+      <p>
+        Course:{" "}
+        <span className="font-mono">
+          {lastCourse.courseTitle || lastCourse.courseId}
+        </span>
+      </p>
+      <p>
+        Last lesson:{" "}
+        <span className="font-mono">
+          {lastCourse.lastLessonTitle || lastCourse.lastLessonId}
+        </span>
+      </p>
+      <p className="text-sm text-gray-600 dark:text-gray-400 mt-1">
+        {getPercentComplete(lastCourse)}% complete
+      </p>
+    </div>
+  );
+}
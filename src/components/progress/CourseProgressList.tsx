@@ -0,0 +1,75 @@
+"use client";
+
+import { useSelector } from "react-redux";
+import { RootState } from "@/lib/redux/store";
+import {
+  getPercentComplete,
+  selectAllCourseProgress,
+} from "@/lib/redux/features/progress/progressSlice";
+
+export default function CourseProgressList() {
+  const courses = useSelector(selectAllCourseProgress);
+  const { status, error } = useSelector(
+    (state: RootState) => state.progress.listRequest
+  );
+  const courseRequests = useSelector(
+    (state: RootState) => state.progress.courseRequests
+  );
+
+  if (status === "loading" && courses.length === 0) {
+    return (
+      <p className="text-gray-700 dark:text-gray-300">Loading progress...</p>
+    );
+  }
+
+  if (error) {
+    return <p className="text-sm text-red-600">{error.message}</p>;
+  }
+
+  if (courses.length === 0) {
+    return (
+      <p className="text-gray-700 dark:text-gray-300">
+        You haven&apos;t started any courses yet.
+      </p>
+    );
+  }
+
+  return (
+    <ul className="space-y-3">
+      {courses.map((course) => {
+        const percent = getPercentComplete(course);
+        const updating = courseRequests[course.courseId]?.status === "loading";
+
+        return (
+          <li key={course.courseId}>
+            <div className="flex justify-between text-sm mb-1">
+              <span className="font-medium">
+                {course.courseTitle || course.courseId}
+              </span>
+              <span className="font-mono">
+                {updating ? "Saving..." : `${percent}%`}
+              </span>
+            </div>
+            <div
+              className="w-full h-2 bg-gray-200 dark:bg-gray-700 rounded-full overflow-hidden"
+              role="progressbar"
+              aria-valuenow={percent}
+              aria-valuemin={0}
+              aria-valuemax={100}
+            >
+              <div
+                className="h-full bg-blue-600 rounded-full transition-all"
+                style={{ width: `${percent}%` }}
+              ></div>
+            </div>
+            <p className="text-xs text-gray-500 mt-1">
+              {course.completedLessons.length}
+              {course.totalLessons ? ` of ${course.totalLessons}` : ""} lessons
+              completed
+            </p>
+          </li>
+        );
+      })}
+    </ul>
+  );
+}
@@ -0,0 +1,33 @@
+import type { BaseQueryFn } from "@reduxjs/toolkit/query";
+import type { AxiosRequestConfig, Method } from "axios";
+import { apiClient } from "./client";
+import { ApiError, toApiError } from "./errors";
+
+export interface ApiRequest {
+  url: string;
+  method?: Method;
+  data?: unknown;
+  params?: AxiosRequestConfig["params"];
+}
+
+// RTK Query base query on top of the shared axios instance, so queries get
+// the same credentials, timeouts, interceptors and ApiError shape as thunks
+export const apiBaseQuery: BaseQueryFn<
+  ApiRequest | string,
+  unknown,
+  ApiError
+> = async (request) => {
+  const {
+    url,
+    method = "GET",
+    data,
+    params,
+  } = typeof request === "string" ? { url: request } : request;
+
+  try {
+    const response = await apiClient.request({ url, method, data, params });
+    return { data: response.data };
+  } catch (error) {
+    return { error: toApiError(error) };
+  }
+};
@@ -0,0 +1,17 @@
+import axios from "axios";
+import { CLIENT_API_BASE_URL } from "./config";
+import { attachCsrfInterceptors } from "./csrf";
+
+const REQUEST_TIMEOUT_MS = 15 * 1000;
+
+// Shared axios instance for every backend call. Requests go through the
+// same-origin proxy, so the connect.sid cookie is sent without CORS.
+export const apiClient = axios.create({
+  baseURL: CLIENT_API_BASE_URL,
+  timeout: REQUEST_TIMEOUT_MS,
+  headers: {
+    "Content-Type": "application/json",
+  },
+});
+
+attachCsrfInterceptors(apiClient);
@@ -0,0 +1,13 @@
+// Kept free of axios so it can be imported from the edge middleware
+
+// Where the backend lives. Only server code talks to it directly: the
+// middleware, server components and the /api/auth proxy. NEXT_PUBLIC_API_URL
+// is still read so existing setups keep working.
+export const API_BASE_URL =
+  process.env.API_URL ||
+  process.env.NEXT_PUBLIC_API_URL ||
+  "http://localhost:4000";
+
+// Browser requests go to the same-origin proxy in app/api/auth instead, so
+// the session cookie always belongs to this app's domain
+export const CLIENT_API_BASE_URL = "/api";
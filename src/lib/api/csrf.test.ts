@@ -0,0 +1,134 @@
+import axios, { AxiosError, AxiosResponse } from "axios";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { handleMockRequest } from "@/lib/mock/mockBackend";
+import { CSRF_HEADER_NAME, CSRF_TOKEN_PATH } from "./csrf";
+
+interface SentRequest {
+  method: string;
+  path: string;
+  csrfHeader: string | null;
+  status: number;
+}
+
+// An axios client wired to the mock backend, with a one-cookie jar for the
+// CSRF cookie the backend sets. A blocked jar never sends the cookie.
+async function createClient() {
+  // The token is cached at module level, so every test gets a fresh module
+  vi.resetModules();
+  const { attachCsrfInterceptors } = await import("./csrf");
+
+  const jar = { csrfCookie: null as string | null, blocked: false };
+  const sent: SentRequest[] = [];
+  const client = axios.create({
+    adapter: async (config) => {
+      const method = (config.method || "get").toUpperCase();
+      const path = config.url || "";
+      const csrfHeader = config.headers.get(CSRF_HEADER_NAME);
+      const result = handleMockRequest({
+        method,
+        path,
+        body: config.data ? JSON.parse(config.data) : {},
+        sessionId: null,
+        userAgent: "vitest",
+        ip: "127.0.0.1",
+        csrfCookie: jar.blocked ? null : jar.csrfCookie,
+        csrfHeader: csrfHeader ? String(csrfHeader) : null,
+      });
+      if (result.csrfToken) {
+        jar.csrfCookie = result.csrfToken;
+      }
+      sent.push({
+        method,
+        path,
+        csrfHeader: csrfHeader ? String(csrfHeader) : null,
+        status: result.status,
+      });
+
+      const response: AxiosResponse = {
+        data: result.body,
+        status: result.status,
+        statusText: "",
+        headers: result.headers || {},
+        config,
+      };
+      if (result.status >= 400) {
+        throw new AxiosError(
+          `Request failed with status code ${result.status}`,
+          AxiosError.ERR_BAD_REQUEST,
+          config,
+          null,
+          response
+        );
+      }
+      return response;
+    },
+  });
+  attachCsrfInterceptors(client);
+
+  return { client, jar, sent };
+}
+
+beforeEach(() => {
+  Reflect.deleteProperty(globalThis, "mockBackendState");
+  vi.spyOn(console, "log").mockImplementation(() => {});
+  vi.spyOn(console, "error").mockImplementation(() => {});
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe("CSRF interceptors", () => {
+  it("fetches a token before the first state-changing request", async () => {
+    const { client, jar, sent } = await createClient();
+
+    await client.post("/auth/logoutExtension");
+
+    expect(sent.map(({ method, path }) => `${method} ${path}`)).toEqual([
+      `GET ${CSRF_TOKEN_PATH}`,
+      "POST /auth/logoutExtension",
+    ]);
+    expect(sent[1].csrfHeader).toBe(jar.csrfCookie);
+  });
+
+  it("reuses the token and leaves GET requests alone", async () => {
+    const { client, sent } = await createClient();
+
+    await client.get("/auth/me");
+    await client.post("/auth/logoutExtension");
+    await client.post("/auth/logoutExtension");
+
+    expect(sent[0].csrfHeader).toBeNull();
+    expect(sent.filter(({ path }) => path === CSRF_TOKEN_PATH)).toHaveLength(1);
+  });
+
+  it("retries once with a new token when the old one is rejected", async () => {
+    const { client, jar, sent } = await createClient();
+    await client.post("/auth/logoutExtension");
+
+    // The backend rotated the cookie, so the cached token no longer matches
+    jar.csrfCookie = "rotated";
+    const response = await client.post("/auth/logoutExtension");
+
+    expect(response.status).toBe(200);
+    expect(
+      sent.slice(2).map(({ path, status }) => `${path} ${status}`)
+    ).toEqual([
+      "/auth/logoutExtension 403",
+      `${CSRF_TOKEN_PATH} 200`,
+      "/auth/logoutExtension 200",
+    ]);
+  });
+
+  it("gives up after the retry is rejected too", async () => {
+    const { client, jar, sent } = await createClient();
+    jar.blocked = true;
+
+    await expect(client.post("/auth/logoutExtension")).rejects.toMatchObject({
+      response: { status: 403 },
+    });
+    expect(
+      sent.filter(({ path }) => path === "/auth/logoutExtension")
+    ).toHaveLength(2);
+  });
+});
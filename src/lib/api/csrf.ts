@@ -0,0 +1,81 @@
+import { isAxiosError } from "axios";
+import type { AxiosInstance, InternalAxiosRequestConfig } from "axios";
+
+// Double-submit CSRF protection: the backend sets a CSRF cookie alongside the
+// token it returns from /auth/csrf-token, and only accepts state-changing
+// requests that echo the same token back in this header
+export const CSRF_HEADER_NAME = "X-CSRF-Token";
+export const CSRF_TOKEN_PATH = "/auth/csrf-token";
+
+const SAFE_METHODS = ["get", "head", "options"];
+
+// What the backend answers when the header and cookie don't match
+const CSRF_MISMATCH_CODE = "EBADCSRFTOKEN";
+
+interface CsrfRetryConfig extends InternalAxiosRequestConfig {
+  _csrfRetried?: boolean;
+}
+
+let csrfToken: string | null = null;
+let pendingRefresh: Promise<string | null> | null = null;
+
+// Fetches a fresh token. Concurrent callers share the same request, and a
+// failure leaves no token so the next state-changing request tries again.
+export function refreshCsrfToken(client: AxiosInstance) {
+  if (!pendingRefresh) {
+    pendingRefresh = client
+      .get<{ csrfToken?: string }>(CSRF_TOKEN_PATH)
+      .then((response) => {
+        csrfToken = response.data.csrfToken || null;
+        return csrfToken;
+      })
+      .catch((error) => {
+        console.error("Failed to fetch CSRF token:", error);
+        csrfToken = null;
+        return null;
+      })
+      .finally(() => {
+        pendingRefresh = null;
+      });
+  }
+  return pendingRefresh;
+}
+
+function isCsrfMismatch(error: unknown) {
+  if (!isAxiosError(error) || error.response?.status !== 403) {
+    return false;
+  }
+  const data = error.response.data as
+    { code?: string; message?: string } | undefined;
+  return data?.code === CSRF_MISMATCH_CODE || /csrf/i.test(data?.message || "");
+}
+
+// Adds the token to every non-GET request, fetching one first if needed, and
+// retries a request once with a new token if the backend rejected the old one
+export function attachCsrfInterceptors(client: AxiosInstance) {
+  client.interceptors.request.use(async (config) => {
+    const method = (config.method || "get").toLowerCase();
+    if (SAFE_METHODS.includes(method)) {
+      return config;
+    }
+
+    const token = csrfToken ?? (await refreshCsrfToken(client));
+    if (token) {
+      config.headers.set(CSRF_HEADER_NAME, token);
+    }
+    return config;
+  });
+
+  client.interceptors.response.use(undefined, async (error) => {
+    const config = error?.config as CsrfRetryConfig | undefined;
+    if (!config || config._csrfRetried || !isCsrfMismatch(error)) {
+      return Promise.reject(error);
+    }
+
+    console.log("CSRF token rejected, retrying with a new one");
+    config._csrfRetried = true;
+    csrfToken = null;
+    await refreshCsrfToken(client);
+    return client.request(config);
+  });
+}
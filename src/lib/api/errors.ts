@@ -0,0 +1,157 @@
+import { isAxiosError } from "axios";
+
+// Every failed API call is normalized into one of these shapes so callers can
+// branch on `kind` instead of inspecting response bodies
+export type ApiError =
+  | { kind: "network"; message: string }
+  | {
+      kind: "unauthorized";
+      status: number;
+      message: string;
+      // Set when the backend wants a CAPTCHA with the next attempt
+      captchaRequired?: boolean;
+    }
+  | {
+      kind: "validation";
+      status: number;
+      message: string;
+      fieldErrors: Record<string, string>;
+    }
+  | {
+      // Too many attempts (429), or the account is locked (423)
+      kind: "rateLimited";
+      status: number;
+      message: string;
+      locked: boolean;
+      // How long until another attempt is allowed, when the backend says
+      retryAfterMs: number | null;
+      captchaRequired?: boolean;
+    }
+  | { kind: "server"; status: number; message: string };
+
+export type ApiErrorKind = ApiError["kind"];
+
+// Accepts both { errors: { field: "msg" } } and express-validator style
+// { errors: [{ path | param | field, msg | message }] } bodies
+function parseFieldErrors(data: unknown): Record<string, string> {
+  const errors = (data as { errors?: unknown })?.errors;
+  const fieldErrors: Record<string, string> = {};
+
+  if (Array.isArray(errors)) {
+    for (const entry of errors) {
+      const field = entry?.path || entry?.param || entry?.field;
+      const message = entry?.msg || entry?.message;
+      if (field && message && !fieldErrors[field]) {
+        fieldErrors[field] = message;
+      }
+    }
+  } else if (errors && typeof errors === "object") {
+    for (const [field, value] of Object.entries(errors)) {
+      const message =
+        typeof value === "string"
+          ? value
+          : (value as { message?: string })?.message;
+      if (message) {
+        fieldErrors[field] = message;
+      }
+    }
+  }
+
+  return fieldErrors;
+}
+
+// Retry-After is either a number of seconds or an HTTP date. Bodies may carry
+// retryAfter (seconds) or lockedUntil (a date) instead.
+function parseRetryAfterMs(header: unknown, data: unknown): number | null {
+  const body = data as { retryAfter?: unknown; lockedUntil?: unknown };
+  for (const value of [header, body?.retryAfter, body?.lockedUntil]) {
+    if (value === undefined || value === null || value === "") continue;
+    const seconds = Number(value);
+    const date = Date.parse(String(value));
+    if (Number.isFinite(seconds)) {
+      return Math.max(0, seconds * 1000);
+    }
+    if (!Number.isNaN(date)) {
+      return Math.max(0, date - Date.now());
+    }
+  }
+  return null;
+}
+
+export function toApiError(error: unknown): ApiError {
+  // Errors coming back out of RTK Query are already normalized
+  if (isApiError(error)) {
+    return error;
+  }
+
+  if (!isAxiosError(error)) {
+    return {
+      kind: "server",
+      status: 0,
+      message: error instanceof Error ? error.message : "Unexpected error",
+    };
+  }
+
+  if (!error.response) {
+    return {
+      kind: "network",
+      message:
+        error.code === "ECONNABORTED"
+          ? "The server took too long to respond. Please try again."
+          : "Could not reach the server. Check your connection.",
+    };
+  }
+
+  const { status, data } = error.response;
+  const message: string =
+    data?.message || data?.error || error.message || "Request failed";
+
+  const captchaRequired = data?.captchaRequired === true;
+
+  if (status === 429 || status === 423) {
+    return {
+      kind: "rateLimited",
+      status,
+      message,
+      locked: status === 423 || data?.locked === true,
+      retryAfterMs: parseRetryAfterMs(
+        error.response.headers?.["retry-after"],
+        data
+      ),
+      captchaRequired,
+    };
+  }
+
+  if (status === 401 || status === 403) {
+    return { kind: "unauthorized", status, message, captchaRequired };
+  }
+
+  if (status === 400 || status === 422) {
+    return {
+      kind: "validation",
+      status,
+      message,
+      fieldErrors: parseFieldErrors(data),
+    };
+  }
+
+  return { kind: "server", status, message };
+}
+
+export function isApiError(value: unknown): value is ApiError {
+  return (
+    typeof value === "object" &&
+    value !== null &&
+    "kind" in value &&
+    "message" in value
+  );
+}
+
+// Rejected thunks without a payload (e.g. a thrown error) still need an
+// ApiError in state
+export function rejectedApiError(
+  payload: ApiError | undefined,
+  fallbackMessage: string
+): ApiError {
+  return payload ?? { kind: "server", status: 0, message: fallbackMessage };
+}
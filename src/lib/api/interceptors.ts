@@ -0,0 +1,46 @@
+import { isAxiosError } from "axios";
+import { apiClient } from "./client";
+
+// Endpoints where a 401 is an expected answer rather than an expired session:
+// the session check itself, and every endpoint that checks a password, code,
+// or token and rejects a wrong one with 401 while the session is still fine
+const SESSION_EXPIRY_EXEMPT_PATHS = [
+  "/auth/me",
+  "/auth/login",
+  "/auth/change-password",
+  "/auth/reset-password",
+  "/auth/verify-email",
+  "/auth/2fa/verify",
+  "/auth/2fa/enable",
+  "/auth/2fa/disable",
+  "/auth/2fa/recovery-codes",
+  "/auth/magic-link/verify",
+];
+
+function isExemptUrl(url: string | undefined) {
+  if (!url) {
+    return false;
+  }
+  const path = url.replace(/^https?:\/\/[^/]+/, "").split("?")[0];
+  return SESSION_EXPIRY_EXEMPT_PATHS.includes(path);
+}
+
+// Call onSessionExpired whenever a protected request comes back 401.
+// Returns a function that removes the interceptor again.
+export function attachSessionExpiryInterceptor(onSessionExpired: () => void) {
+  const interceptorId = apiClient.interceptors.response.use(
+    undefined,
+    (error) => {
+      if (
+        isAxiosError(error) &&
+        error.response?.status === 401 &&
+        !isExemptUrl(error.config?.url)
+      ) {
+        onSessionExpired();
+      }
+      return Promise.reject(error);
+    }
+  );
+
+  return () => apiClient.interceptors.response.eject(interceptorId);
+}
@@ -0,0 +1,120 @@
+import { NextRequest, NextResponse } from "next/server";
+import { API_BASE_URL, CLIENT_API_BASE_URL } from "./config";
+
+const PROXY_TIMEOUT_MS = 15 * 1000;
+
+// Connection-level headers that only apply to a single hop (RFC 9110 7.6.1),
+// plus the ones fetch works out for itself
+const HOP_BY_HOP_HEADERS = [
+  "connection",
+  "keep-alive",
+  "proxy-authenticate",
+  "proxy-authorization",
+  "proxy-connection",
+  "te",
+  "trailer",
+  "transfer-encoding",
+  "upgrade",
+  "host",
+  "content-length",
+];
+
+// fetch has already decoded the body, so these no longer describe it
+const DECODED_BODY_HEADERS = ["content-encoding", "content-length"];
+
+function copyHeaders(source: Headers, skip: string[]) {
+  // Headers listed in Connection are hop-by-hop too
+  const listed = (source.get("connection") || "")
+    .split(",")
+    .map((name) => name.trim().toLowerCase())
+    .filter(Boolean);
+  const excluded = new Set([...skip, ...listed]);
+
+  const headers = new Headers();
+  source.forEach((value, name) => {
+    if (!excluded.has(name.toLowerCase())) {
+      headers.append(name, value);
+    }
+  });
+  return headers;
+}
+
+// Make a backend cookie belong to this app: drop its Domain, and on plain
+// http drop Secure (browsers would refuse it), which in turn rules out
+// SameSite=None
+function rewriteSetCookie(cookie: string, secure: boolean) {
+  const [pair, ...attributes] = cookie.split(";").map((part) => part.trim());
+  const kept = attributes
+    .filter((attribute) => {
+      const name = attribute.split("=")[0].toLowerCase();
+      return name !== "domain" && (secure || name !== "secure");
+    })
+    .map((attribute) =>
+      !secure && /^samesite=none$/i.test(attribute) ? "SameSite=Lax" : attribute
+    );
+  return [pair, ...kept].join("; ");
+}
+
+// Redirects to the backend's own /auth routes stay on the proxy
+function rewriteLocation(location: string) {
+  if (location.startsWith(`${API_BASE_URL}/auth`)) {
+    return `${CLIENT_API_BASE_URL}${location.slice(API_BASE_URL.length)}`;
+  }
+  return location;
+}
+
+// Forwards a same-origin /api/auth/* request to the backend's /auth/* and
+// hands the response back with its status, body and cookies intact
+export async function proxyAuthRequest(request: NextRequest, path: string[]) {
+  const target = new URL(
+    `${API_BASE_URL}/auth/${path.map(encodeURIComponent).join("/")}`
+  );
+  target.search = request.nextUrl.search;
+
+  const headers = copyHeaders(request.headers, HOP_BY_HOP_HEADERS);
+  const protocol = request.nextUrl.protocol.replace(":", "");
+  headers.set("x-forwarded-host", request.headers.get("host") || "");
+  headers.set("x-forwarded-proto", protocol);
+
+  const hasBody = request.method !== "GET" && request.method !== "HEAD";
+
+  let backendResponse: Response;
+  try {
+    backendResponse = await fetch(target, {
+      method: request.method,
+      headers,
+      body: hasBody ? await request.arrayBuffer() : undefined,
+      // Pass redirects (e.g. OAuth) to the browser instead of following them
+      redirect: "manual",
+      cache: "no-store",
+      signal: AbortSignal.timeout(PROXY_TIMEOUT_MS),
+    });
+  } catch (error) {
+    console.error("Auth proxy error:", error);
+    return NextResponse.json(
+      { message: "Could not reach the authentication server" },
+      { status: 502 }
+    );
+  }
+
+  const responseHeaders = copyHeaders(backendResponse.headers, [
+    ...HOP_BY_HOP_HEADERS,
+    ...DECODED_BODY_HEADERS,
+    "set-cookie",
+  ]);
+  const secure = protocol === "https";
+  for (const cookie of backendResponse.headers.getSetCookie()) {
+    responseHeaders.append("set-cookie", rewriteSetCookie(cookie, secure));
+  }
+  const location = backendResponse.headers.get("location");
+  if (location) {
+    responseHeaders.set("location", rewriteLocation(location));
+  }
+
+  const hasResponseBody = ![204, 205, 304].includes(backendResponse.status);
+  return new NextResponse(hasResponseBody ? backendResponse.body : null, {
+    status: backendResponse.status,
+    statusText: backendResponse.statusText,
+    headers: responseHeaders,
+  });
+}
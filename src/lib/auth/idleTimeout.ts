@@ -0,0 +1,40 @@
+// Idle timeout settings. Set NEXT_PUBLIC_IDLE_TIMEOUT_MINUTES=0 to disable.
+
+const timeoutMinutes = Number(
+  process.env.NEXT_PUBLIC_IDLE_TIMEOUT_MINUTES ?? 30
+);
+const warningSeconds = Number(
+  process.env.NEXT_PUBLIC_IDLE_WARNING_SECONDS ?? 60
+);
+
+export const IDLE_TIMEOUT_MS =
+  Number.isFinite(timeoutMinutes) && timeoutMinutes > 0
+    ? timeoutMinutes * 60 * 1000
+    : 0;
+
+// How long before the timeout the warning modal appears
+export const IDLE_WARNING_MS = Math.min(
+  Number.isFinite(warningSeconds) ? warningSeconds * 1000 : 60 * 1000,
+  IDLE_TIMEOUT_MS
+);
+
+// Last activity is shared through localStorage so that activity in any tab
+// keeps every tab alive
+const LAST_ACTIVITY_KEY = "auth_last_activity";
+
+export function readLastActivity() {
+  try {
+    const value = Number(localStorage.getItem(LAST_ACTIVITY_KEY));
+    return value > 0 ? value : null;
+  } catch {
+    return null;
+  }
+}
+
+export function recordActivity(timestamp = Date.now()) {
+  try {
+    localStorage.setItem(LAST_ACTIVITY_KEY, String(timestamp));
+  } catch (error) {
+    console.error("Could not record activity:", error);
+  }
+}
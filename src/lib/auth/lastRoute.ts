@@ -0,0 +1,44 @@
+import { DEFAULT_LOGIN_REDIRECT, getSafeNextPath } from "./routes";
+
+// The last protected page the user had open, recorded by withAuth so that
+// signing in again (after expiry, in a new tab, through OAuth) can take them
+// back there. It is tied to the user's id so a shared browser never sends
+// someone to the page the previous user was on.
+const LAST_ROUTE_KEY = "auth_last_route";
+
+interface LastRoute {
+  userId: string;
+  path: string;
+}
+
+export function rememberLastRoute(userId: string, path: string) {
+  try {
+    localStorage.setItem(LAST_ROUTE_KEY, JSON.stringify({ userId, path }));
+  } catch (error) {
+    console.error("Could not record last route:", error);
+  }
+}
+
+export function readLastRoute(userId: string) {
+  try {
+    const stored: LastRoute | null = JSON.parse(
+      localStorage.getItem(LAST_ROUTE_KEY) || "null"
+    );
+    // Stored values are re-checked; localStorage is easy to tamper with
+    return stored?.userId === userId ? getSafeNextPath(stored.path) : null;
+  } catch {
+    return null;
+  }
+}
+
+// Where to go once signed in: an explicit ?next= wins, then the user's last
+// protected page, then the default
+export function getPostLoginPath(
+  next: string | null | undefined,
+  userId: string | undefined
+) {
+  if (next) {
+    return getSafeNextPath(next);
+  }
+  return (userId && readLastRoute(userId)) || DEFAULT_LOGIN_REDIRECT;
+}
@@ -0,0 +1,89 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  clearLoginFailures,
+  getLoginThrottle,
+  recordLoginFailure,
+} from "./loginThrottle";
+
+const EMAIL = "demo@example.com";
+
+function createStorage(): Storage {
+  const items = new Map<string, string>();
+  return {
+    get length() {
+      return items.size;
+    },
+    clear: () => items.clear(),
+    getItem: (key) => items.get(key) ?? null,
+    key: (index) => [...items.keys()][index] ?? null,
+    removeItem: (key) => void items.delete(key),
+    setItem: (key, value) => void items.set(key, String(value)),
+  };
+}
+
+// Milliseconds until the next attempt is allowed
+function waitAfterFailure(retryAfterMs?: number) {
+  return recordLoginFailure(EMAIL, retryAfterMs).blockedUntil - Date.now();
+}
+
+beforeEach(() => {
+  vi.useFakeTimers();
+  vi.stubGlobal("localStorage", createStorage());
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+  vi.useRealTimers();
+});
+
+describe("login backoff", () => {
+  it("doubles the wait with every failure after the first three", () => {
+    const waits = Array.from({ length: 6 }, () => waitAfterFailure());
+
+    expect(waits).toEqual([0, 0, 2000, 4000, 8000, 16000]);
+  });
+
+  it("never waits more than five minutes", () => {
+    for (let i = 0; i < 20; i++) {
+      recordLoginFailure(EMAIL);
+    }
+
+    expect(waitAfterFailure()).toBe(5 * 60 * 1000);
+  });
+
+  it("uses the backend's wait when it is longer", () => {
+    expect(waitAfterFailure(30 * 1000)).toBe(30 * 1000);
+    waitAfterFailure();
+    expect(waitAfterFailure(1000)).toBe(2000);
+  });
+
+  it("tracks each email separately, ignoring case and spaces", () => {
+    recordLoginFailure(EMAIL);
+    recordLoginFailure(" Demo@Example.com ");
+
+    expect(getLoginThrottle(EMAIL).failures).toBe(2);
+    expect(getLoginThrottle("other@example.com").failures).toBe(0);
+  });
+
+  it("starts over after a successful login", () => {
+    recordLoginFailure(EMAIL);
+    recordLoginFailure(EMAIL);
+    recordLoginFailure(EMAIL);
+    clearLoginFailures(EMAIL);
+
+    expect(getLoginThrottle(EMAIL)).toMatchObject({
+      failures: 0,
+      blockedUntil: 0,
+    });
+  });
+
+  it("forgets failures after an hour without any", () => {
+    recordLoginFailure(EMAIL);
+    recordLoginFailure(EMAIL);
+
+    vi.advanceTimersByTime(60 * 60 * 1000 + 1);
+
+    expect(getLoginThrottle(EMAIL).failures).toBe(0);
+    expect(waitAfterFailure()).toBe(0);
+  });
+});
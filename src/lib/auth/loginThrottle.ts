@@ -0,0 +1,100 @@
+// Client-side brakes on repeated failed logins, tracked per email in
+// localStorage so reloading or opening another tab doesn't reset them. The
+// backend still has the final say through 429/423 responses.
+
+const LOGIN_THROTTLE_KEY = "auth_login_throttle";
+
+// Failures allowed before any waiting starts
+const FREE_ATTEMPTS = 3;
+const BASE_BACKOFF_MS = 2 * 1000;
+const MAX_BACKOFF_MS = 5 * 60 * 1000;
+// Entries for emails that haven't failed in this long are dropped
+const FAILURE_MEMORY_MS = 60 * 60 * 1000;
+
+export interface LoginThrottle {
+  failures: number;
+  // No new attempt before this time (ms since epoch)
+  blockedUntil: number;
+  lastFailureAt: number;
+}
+
+const NO_THROTTLE: LoginThrottle = {
+  failures: 0,
+  blockedUntil: 0,
+  lastFailureAt: 0,
+};
+
+function normalizeEmail(email: string) {
+  return email.trim().toLowerCase();
+}
+
+function readAll(): Record<string, LoginThrottle> {
+  try {
+    const stored = JSON.parse(localStorage.getItem(LOGIN_THROTTLE_KEY) || "{}");
+    return stored && typeof stored === "object" ? stored : {};
+  } catch {
+    return {};
+  }
+}
+
+function writeAll(entries: Record<string, LoginThrottle>) {
+  const now = Date.now();
+  for (const [email, entry] of Object.entries(entries)) {
+    if (
+      entry.blockedUntil < now &&
+      now - entry.lastFailureAt > FAILURE_MEMORY_MS
+    ) {
+      delete entries[email];
+    }
+  }
+  try {
+    localStorage.setItem(LOGIN_THROTTLE_KEY, JSON.stringify(entries));
+  } catch (error) {
+    console.error("Could not save login attempts:", error);
+  }
+}
+
+export function getLoginThrottle(email: string): LoginThrottle {
+  const entry = readAll()[normalizeEmail(email)];
+  if (!entry || Date.now() - entry.lastFailureAt > FAILURE_MEMORY_MS) {
+    return NO_THROTTLE;
+  }
+  return entry;
+}
+
+// 2s, 4s, 8s... once the free attempts are used up
+function backoffMs(failures: number) {
+  if (failures < FREE_ATTEMPTS) {
+    return 0;
+  }
+  return Math.min(
+    BASE_BACKOFF_MS * 2 ** (failures - FREE_ATTEMPTS),
+    MAX_BACKOFF_MS
+  );
+}
+
+// Counts a failed attempt. A wait demanded by the backend wins if it is
+// longer than our own backoff.
+export function recordLoginFailure(
+  email: string,
+  retryAfterMs: number | null = null
+): LoginThrottle {
+  const entries = readAll();
+  const key = normalizeEmail(email);
+  const now = Date.now();
+  const failures = getLoginThrottle(email).failures + 1;
+  const entry = {
+    failures,
+    blockedUntil: now + Math.max(backoffMs(failures), retryAfterMs ?? 0),
+    lastFailureAt: now,
+  };
+  entries[key] = entry;
+  writeAll(entries);
+  return entry;
+}
+
+export function clearLoginFailures(email: string) {
+  const entries = readAll();
+  delete entries[normalizeEmail(email)];
+  writeAll(entries);
+}
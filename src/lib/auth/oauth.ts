@@ -0,0 +1,39 @@
+// Shared between the OAuth start route, the /auth/callback route and the
+// result page it redirects to
+
+export const OAUTH_STATE_COOKIE = "oauth_state";
+export const OAUTH_NEXT_COOKIE = "oauth_next";
+
+export const OAUTH_RESULT_ROUTE = "/auth/callback/result";
+
+// Set by /auth/callback itself when the state is missing or doesn't match
+export const OAUTH_INVALID_STATE_ERROR = "invalid_state";
+
+// Long enough to get through the provider's consent screen
+export const OAUTH_COOKIE_MAX_AGE_SECONDS = 10 * 60;
+
+// Error codes the backend forwards to /auth/callback?error=...
+const OAUTH_ERROR_MESSAGES: Record<string, string> = {
+  access_denied:
+    "You cancelled the sign-in or didn't grant access to your account.",
+  account_exists:
+    "An account with this email already exists. Log in with your email and password instead.",
+  password_account:
+    "This email is registered with a password. Log in with your email and password instead.",
+  email_unverified:
+    "The email address on that account isn't verified with the provider. Verify it there and try again.",
+  server_error: "Something went wrong on our side. Please try again.",
+  [OAUTH_INVALID_STATE_ERROR]:
+    "We couldn't verify this sign-in request. Please start again from the login page.",
+};
+
+export function getOAuthErrorMessage(
+  error: string,
+  description?: string | null
+) {
+  return (
+    OAUTH_ERROR_MESSAGES[error] ||
+    description ||
+    "We couldn't sign you in. Please try again."
+  );
+}
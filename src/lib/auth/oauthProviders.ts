@@ -0,0 +1,62 @@
+// Social login providers. Adding one is a matter of adding an entry here and
+// enabling it through its NEXT_PUBLIC_OAUTH_<ID>_ENABLED variable; the start
+// route and the login/register buttons are driven from this list.
+
+export interface OAuthProvider {
+  id: string;
+  label: string;
+  // SVG path data for a 24x24 icon drawn with currentColor
+  icon: string;
+  // Backend route that starts the provider's OAuth flow
+  startPath: string;
+  enabled: boolean;
+}
+
+// Env values must be read with literal names so Next.js can inline them
+// into the client bundle
+function isEnabled(value: string | undefined, defaultValue: boolean) {
+  if (value === undefined || value === "") {
+    return defaultValue;
+  }
+  return value === "true" || value === "1";
+}
+
+export const OAUTH_PROVIDERS: OAuthProvider[] = [
+  {
+    id: "google",
+    label: "Google",
+    icon: "M12.545,10.239v3.821h5.445c-0.712,2.315-2.647,3.972-5.445,3.972c-3.332,0-6.033-2.701-6.033-6.032s2.701-6.032,6.033-6.032c1.498,0,2.866,0.549,3.921,1.453l2.814-2.814C17.503,2.988,15.139,2,12.545,2C7.021,2,2.543,6.477,2.543,12s4.478,10,10.002,10c8.396,0,10.249-7.85,9.426-11.748L12.545,10.239z",
+    startPath: "/auth/google-login",
+    enabled: isEnabled(process.env.NEXT_PUBLIC_OAUTH_GOOGLE_ENABLED, true),
+  },
+  {
+    id: "github",
+    label: "GitHub",
+    icon: "M12 .297c-6.63 0-12 5.373-12 12 0 5.303 3.438 9.8 8.205 11.385.6.113.82-.258.82-.577 0-.285-.01-1.04-.015-2.04-3.338.724-4.042-1.61-4.042-1.61C4.422 18.07 3.633 17.7 3.633 17.7c-1.087-.744.084-.729.084-.729 1.205.084 1.838 1.236 1.838 1.236 1.07 1.835 2.809 1.305 3.495.998.108-.776.417-1.305.76-1.605-2.665-.3-5.466-1.332-5.466-5.93 0-1.31.465-2.38 1.235-3.22-.135-.303-.54-1.523.105-3.176 0 0 1.005-.322 3.3 1.23.96-.267 1.98-.399 3-.405 1.02.006 2.04.138 3 .405 2.28-1.552 3.285-1.23 3.285-1.23.645 1.653.24 2.873.12 3.176.765.84 1.23 1.91 1.23 3.22 0 4.61-2.805 5.625-5.475 5.92.42.36.81 1.096.81 2.22 0 1.606-.015 2.896-.015 3.286 0 .315.21.69.825.57C20.565 22.092 24 17.592 24 12.297c0-6.627-5.373-12-12-12",
+    startPath: "/auth/github-login",
+    enabled: isEnabled(process.env.NEXT_PUBLIC_OAUTH_GITHUB_ENABLED, false),
+  },
+  {
+    id: "microsoft",
+    label: "Microsoft",
+    icon: "M11.4 24H0V12.6h11.4V24zM24 24H12.6V12.6H24V24zM11.4 11.4H0V0h11.4v11.4zm12.6 0H12.6V0H24v11.4z",
+    startPath: "/auth/microsoft-login",
+    enabled: isEnabled(process.env.NEXT_PUBLIC_OAUTH_MICROSOFT_ENABLED, false),
+  },
+];
+
+export function getEnabledProviders() {
+  return OAUTH_PROVIDERS.filter((provider) => provider.enabled);
+}
+
+export function getProvider(id: string) {
+  return OAUTH_PROVIDERS.find(
+    (provider) => provider.id === id && provider.enabled
+  );
+}
+
+// Frontend route that starts sign-in with a provider
+export function getProviderLoginHref(providerId: string, next?: string) {
+  const href = `/api/auth/${providerId}`;
+  return next ? `${href}?next=${encodeURIComponent(next)}` : href;
+}
@@ -0,0 +1,75 @@
+import type { User } from "@/lib/redux/features/auth/authSlice";
+
+export type Role = "author" | "editor" | "admin";
+
+export type Permission =
+  | "articles:create"
+  | "articles:edit-own"
+  | "articles:edit-any"
+  | "articles:review"
+  | "articles:publish"
+  | "articles:delete"
+  | "users:manage";
+
+// Permissions every holder of a role gets. Users can be granted extra
+// permissions individually through User.permissions.
+export const ROLE_PERMISSIONS: Record<Role, Permission[]> = {
+  author: ["articles:create", "articles:edit-own"],
+  editor: [
+    "articles:create",
+    "articles:edit-own",
+    "articles:edit-any",
+    "articles:review",
+    "articles:publish",
+  ],
+  admin: [
+    "articles:create",
+    "articles:edit-own",
+    "articles:edit-any",
+    "articles:review",
+    "articles:publish",
+    "articles:delete",
+    "users:manage",
+  ],
+};
+
+export function getPermissions(user: User | null): Set<Permission> {
+  const permissions = new Set<Permission>(user?.permissions || []);
+  for (const role of user?.roles || []) {
+    ROLE_PERMISSIONS[role]?.forEach((permission) =>
+      permissions.add(permission)
+    );
+  }
+  return permissions;
+}
+
+// True if the user has at least one of the given roles
+export function hasAnyRole(user: User | null, roles: Role[]) {
+  return roles.some((role) => user?.roles?.includes(role));
+}
+
+// True if the user has every one of the given permissions
+export function hasAllPermissions(user: User | null, required: Permission[]) {
+  const permissions = getPermissions(user);
+  return required.every((permission) => permissions.has(permission));
+}
+
+export interface AccessRequirements {
+  // Any one of these roles grants access
+  roles?: Role[];
+  // All of these permissions are required
+  permissions?: Permission[];
+}
+
+export function meetsRequirements(
+  user: User | null,
+  { roles, permissions }: AccessRequirements
+) {
+  if (roles?.length && !hasAnyRole(user, roles)) {
+    return false;
+  }
+  if (permissions?.length && !hasAllPermissions(user, permissions)) {
+    return false;
+  }
+  return true;
+}
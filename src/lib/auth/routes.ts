@@ -0,0 +1,69 @@
+// Route access configuration shared by the middleware and client-side guards.
+// Patterns match the exact path and everything nested below it, so
+// "/dashboard" also covers "/dashboard/settings".
+
+export const SESSION_COOKIE_NAME = "connect.sid";
+
+export const LOGIN_ROUTE = "/auth/login";
+
+// Routes that require a valid session before they render
+export const PROTECTED_ROUTES: string[] = [
+  "/dashboard",
+  "/account",
+  "/profile",
+];
+
+// Routes that never require a session, even if nested under a protected one
+export const PUBLIC_ROUTES: string[] = ["/", "/auth"];
+
+export function matchesRoute(pathname: string, patterns: string[]) {
+  return patterns.some((pattern) => {
+    if (pattern === "/") {
+      return pathname === "/";
+    }
+    return pathname === pattern || pathname.startsWith(`${pattern}/`);
+  });
+}
+
+export function isProtectedRoute(pathname: string) {
+  // Public patterns take precedence so auth pages can't end up in a redirect loop
+  if (matchesRoute(pathname, PUBLIC_ROUTES)) {
+    return false;
+  }
+  return matchesRoute(pathname, PROTECTED_ROUTES);
+}
+
+export function buildLoginUrl(nextPath?: string) {
+  if (!nextPath) {
+    return LOGIN_ROUTE;
+  }
+  return `${LOGIN_ROUTE}?next=${encodeURIComponent(nextPath)}`;
+}
+
+export const DEFAULT_LOGIN_REDIRECT = "/dashboard";
+
+// Only same-site paths are accepted as a post-login destination. Anything a
+// browser could read as another origin ("//evil.com", "/\evil.com", control
+// characters) is refused, as are auth pages, which would loop back to login.
+export function getSafeNextPath(next: string | null | undefined) {
+  if (
+    !next ||
+    !next.startsWith("/") ||
+    next.startsWith("//") ||
+    /[\\\u0000-\u001f]/.test(next)
+  ) {
+    return DEFAULT_LOGIN_REDIRECT;
+  }
+
+  const base = "http://localhost";
+  let url: URL;
+  try {
+    url = new URL(next, base);
+  } catch {
+    return DEFAULT_LOGIN_REDIRECT;
+  }
+  if (url.origin !== base || matchesRoute(url.pathname, ["/auth", "/api"])) {
+    return DEFAULT_LOGIN_REDIRECT;
+  }
+  return `${url.pathname}${url.search}${url.hash}`;
+}
@@ -0,0 +1,32 @@
+import { cookies } from "next/headers";
+import { AuthState, initialState } from "@/lib/redux/features/auth/authSlice";
+import { SESSION_COOKIE_NAME } from "./routes";
+import { fetchSession } from "./session";
+
+// Build the initial auth slice for a server render from the request cookies.
+// Returns undefined when the session couldn't be resolved, leaving the
+// client to run the usual checkAuthStatus on mount.
+export async function getServerAuthState(): Promise<AuthState | undefined> {
+  const cookieStore = await cookies();
+
+  if (!cookieStore.has(SESSION_COOKIE_NAME)) {
+    return {
+      ...initialState,
+      user: null,
+      isAuthenticated: false,
+      sessionCheck: { status: "succeeded", error: null },
+    };
+  }
+
+  const session = await fetchSession(cookieStore.toString());
+  if (!session) {
+    return undefined;
+  }
+
+  return {
+    ...initialState,
+    user: session.user,
+    isAuthenticated: session.authenticated,
+    sessionCheck: { status: "succeeded", error: null },
+  };
+}
@@ -0,0 +1,34 @@
+import type { User } from "@/lib/redux/features/auth/authSlice";
+import { API_BASE_URL } from "@/lib/api/config";
+
+export interface SessionResult {
+  authenticated: boolean;
+  user: User | null;
+}
+
+// Resolve the session behind a cookie header against the backend.
+// Returns null when the backend couldn't be reached, so callers can fall
+// back to a client-side check instead of treating the user as logged out.
+export async function fetchSession(
+  cookieHeader: string
+): Promise<SessionResult | null> {
+  try {
+    const response = await fetch(`${API_BASE_URL}/auth/me`, {
+      headers: { cookie: cookieHeader },
+      cache: "no-store",
+    });
+
+    if (!response.ok) {
+      return { authenticated: false, user: null };
+    }
+
+    const data = await response.json();
+    return {
+      authenticated: !!(data.authenticated || data.user),
+      user: data.user || null,
+    };
+  } catch (error) {
+    console.error("Session lookup failed:", error);
+    return null;
+  }
+}
@@ -0,0 +1,71 @@
+// Cross-tab session events. Uses BroadcastChannel where available and falls
+// back to localStorage "storage" events, which only fire in other tabs.
+
+export type SessionEvent =
+  { type: "login" } | { type: "logout" } | { type: "session-expired" };
+
+const CHANNEL_NAME = "auth-session";
+const STORAGE_KEY = "auth_session_event";
+
+// BroadcastChannel doesn't deliver a message to the instance that sent it,
+// so one shared instance per tab keeps a tab from hearing its own events
+let channel: BroadcastChannel | null = null;
+
+function getChannel() {
+  if (typeof window === "undefined" || !("BroadcastChannel" in window)) {
+    return null;
+  }
+  if (!channel) {
+    channel = new BroadcastChannel(CHANNEL_NAME);
+  }
+  return channel;
+}
+
+export function publishSessionEvent(event: SessionEvent) {
+  if (typeof window === "undefined") {
+    return;
+  }
+
+  const broadcast = getChannel();
+  if (broadcast) {
+    broadcast.postMessage(event);
+    return;
+  }
+
+  try {
+    // The timestamp makes repeated events of the same type still register
+    // as a change
+    localStorage.setItem(
+      STORAGE_KEY,
+      JSON.stringify({ ...event, sentAt: Date.now() })
+    );
+  } catch (error) {
+    console.error("Could not publish session event:", error);
+  }
+}
+
+export function subscribeToSessionEvents(
+  handler: (event: SessionEvent) => void
+) {
+  const broadcast = getChannel();
+  if (broadcast) {
+    const onMessage = (message: MessageEvent<SessionEvent>) =>
+      handler(message.data);
+    broadcast.addEventListener("message", onMessage);
+    return () => broadcast.removeEventListener("message", onMessage);
+  }
+
+  const onStorage = (event: StorageEvent) => {
+    if (event.key !== STORAGE_KEY || !event.newValue) {
+      return;
+    }
+    try {
+      const { type } = JSON.parse(event.newValue);
+      handler({ type });
+    } catch (error) {
+      console.error("Ignoring malformed session event:", error);
+    }
+  };
+  window.addEventListener("storage", onStorage);
+  return () => window.removeEventListener("storage", onStorage);
+}
@@ -0,0 +1,26 @@
+"use client";
+
+import { useEffect, useState } from "react";
+
+// Whole seconds left until `until` (ms since epoch), ticking once a second.
+// Reaches 0 and stays there once the time has passed.
+export function useCountdown(until: number) {
+  const [now, setNow] = useState(() => Date.now());
+  const [countingTo, setCountingTo] = useState(until);
+  // A new target restarts the clock, so it never shows a stale remainder
+  if (countingTo !== until) {
+    setCountingTo(until);
+    setNow(Date.now());
+  }
+
+  const remainingSeconds = Math.max(0, Math.ceil((until - now) / 1000));
+  const running = remainingSeconds > 0;
+
+  useEffect(() => {
+    if (!running) return;
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [running]);
+
+  return remainingSeconds;
+}
@@ -0,0 +1,107 @@
+"use client";
+
+import { useCallback, useEffect, useRef, useState } from "react";
+import { readLastActivity, recordActivity } from "./idleTimeout";
+
+const ACTIVITY_EVENTS = [
+  "mousemove",
+  "mousedown",
+  "keydown",
+  "scroll",
+  "touchstart",
+] as const;
+
+// Don't hit localStorage on every mouse move
+const ACTIVITY_WRITE_INTERVAL_MS = 5 * 1000;
+const TICK_INTERVAL_MS = 1000;
+
+interface IdleTimerOptions {
+  enabled: boolean;
+  timeoutMs: number;
+  warningMs: number;
+  onTimeout: () => void;
+}
+
+// Tracks user activity across every open tab. Once the warning window starts,
+// passive activity no longer counts and only stayActive() resets the timer.
+export function useIdleTimer({
+  enabled,
+  timeoutMs,
+  warningMs,
+  onTimeout,
+}: IdleTimerOptions) {
+  const [remainingMs, setRemainingMs] = useState<number | null>(null);
+  const warningRef = useRef(false);
+  const lastWriteRef = useRef(0);
+  const onTimeoutRef = useRef(onTimeout);
+
+  useEffect(() => {
+    onTimeoutRef.current = onTimeout;
+  }, [onTimeout]);
+
+  const stayActive = useCallback(() => {
+    const now = Date.now();
+    lastWriteRef.current = now;
+    recordActivity(now);
+    warningRef.current = false;
+    setRemainingMs(null);
+  }, []);
+
+  useEffect(() => {
+    if (!enabled || timeoutMs <= 0) {
+      warningRef.current = false;
+      setRemainingMs(null);
+      return;
+    }
+
+    stayActive();
+
+    const handleActivity = () => {
+      const now = Date.now();
+      if (
+        warningRef.current ||
+        now - lastWriteRef.current < ACTIVITY_WRITE_INTERVAL_MS
+      ) {
+        return;
+      }
+      lastWriteRef.current = now;
+      recordActivity(now);
+    };
+
+    const tick = () => {
+      const lastActivity = readLastActivity() ?? Date.now();
+      const remaining = timeoutMs - (Date.now() - lastActivity);
+
+      if (remaining <= 0) {
+        warningRef.current = false;
+        setRemainingMs(null);
+        onTimeoutRef.current();
+      } else if (remaining <= warningMs) {
+        warningRef.current = true;
+        setRemainingMs(remaining);
+      } else if (warningRef.current) {
+        // Another tab chose to stay signed in
+        warningRef.current = false;
+        setRemainingMs(null);
+      }
+    };
+
+    ACTIVITY_EVENTS.forEach((event) =>
+      window.addEventListener(event, handleActivity, { passive: true })
+    );
+    const interval = window.setInterval(tick, TICK_INTERVAL_MS);
+
+    return () => {
+      ACTIVITY_EVENTS.forEach((event) =>
+        window.removeEventListener(event, handleActivity)
+      );
+      window.clearInterval(interval);
+    };
+  }, [enabled, timeoutMs, warningMs, stayActive]);
+
+  return {
+    isWarning: remainingMs !== null,
+    remainingMs,
+    stayActive,
+  };
+}
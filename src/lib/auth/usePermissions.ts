@@ -0,0 +1,32 @@
+"use client";
+
+import { useSelector } from "react-redux";
+import { RootState } from "@/lib/redux/store";
+import {
+  AccessRequirements,
+  Permission,
+  Role,
+  hasAllPermissions,
+  hasAnyRole,
+  meetsRequirements,
+} from "./permissions";
+
+const selectUser = (state: RootState) => state.auth.user;
+
+export function useHasPermission(permission: Permission | Permission[]) {
+  const user = useSelector(selectUser);
+  return hasAllPermissions(
+    user,
+    Array.isArray(permission) ? permission : [permission]
+  );
+}
+
+export function useHasRole(role: Role | Role[]) {
+  const user = useSelector(selectUser);
+  return hasAnyRole(user, Array.isArray(role) ? role : [role]);
+}
+
+export function useMeetsRequirements(requirements: AccessRequirements) {
+  const user = useSelector(selectUser);
+  return meetsRequirements(user, requirements);
+}
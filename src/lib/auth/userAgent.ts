@@ -0,0 +1,34 @@
+// Rough "Browser on OS" label for a user agent string. Order matters: Edge
+// and Opera also claim to be Chrome, and Chrome also claims to be Safari.
+const BROWSERS: [RegExp, string][] = [
+  [/Edg\//, "Edge"],
+  [/OPR\/|Opera/, "Opera"],
+  [/Firefox\/|FxiOS/, "Firefox"],
+  [/Chrome\/|CriOS/, "Chrome"],
+  [/Safari\//, "Safari"],
+];
+
+const OPERATING_SYSTEMS: [RegExp, string][] = [
+  [/Windows/, "Windows"],
+  [/Android/, "Android"],
+  [/iPhone|iPad|iPod/, "iOS"],
+  [/Mac OS X|Macintosh/, "macOS"],
+  [/CrOS/, "ChromeOS"],
+  [/Linux/, "Linux"],
+];
+
+function findMatch(userAgent: string, candidates: [RegExp, string][]) {
+  return candidates.find(([pattern]) => pattern.test(userAgent))?.[1];
+}
+
+export function describeUserAgent(userAgent?: string) {
+  if (!userAgent) {
+    return "Unknown device";
+  }
+  const browser = findMatch(userAgent, BROWSERS);
+  const os = findMatch(userAgent, OPERATING_SYSTEMS);
+  if (browser && os) {
+    return `${browser} on ${os}`;
+  }
+  return browser || os || "Unknown device";
+}
@@ -0,0 +1,35 @@
+export const MIN_PASSWORD_LENGTH = 6;
+
+export interface PasswordStrength {
+  // 0 (too short) to 4 (strong)
+  score: number;
+  label: string;
+}
+
+const STRENGTH_LABELS = ["Too short", "Weak", "Fair", "Good", "Strong"];
+const COMMON_PASSWORDS = ["password", "123456", "qwerty", "letmein", "abc123"];
+
+// A rough guide for the registration form, based on length and character
+// variety. The backend still has the final say on what it accepts.
+export function getPasswordStrength(password: string): PasswordStrength {
+  if (password.length < MIN_PASSWORD_LENGTH) {
+    return { score: 0, label: STRENGTH_LABELS[0] };
+  }
+
+  const lower = password.toLowerCase();
+  if (COMMON_PASSWORDS.some((common) => lower.includes(common))) {
+    return { score: 1, label: STRENGTH_LABELS[1] };
+  }
+
+  const variety = [/[a-z]/, /[A-Z]/, /\d/, /[^A-Za-z0-9]/].filter((pattern) =>
+    pattern.test(password)
+  ).length;
+
+  let score = 1;
+  if (password.length >= 10) score++;
+  if (variety >= 3) score++;
+  if (password.length >= 14 || variety === 4) score++;
+  score = Math.min(score, 4);
+
+  return { score, label: STRENGTH_LABELS[score] };
+}
@@ -0,0 +1,111 @@
+import { MIN_PASSWORD_LENGTH } from "@/lib/auth/validation";
+import {
+  FormSchema,
+  differentFrom,
+  isEmail,
+  maxLength,
+  minLength,
+  oneOf,
+  required,
+  sameAs,
+} from "./validation";
+
+export const SKILL_LEVELS = [
+  { value: "beginner", label: "Beginner" },
+  { value: "intermediate", label: "Intermediate" },
+  { value: "advanced", label: "Advanced" },
+];
+
+const NAME_MAX_LENGTH = 100;
+const PASSWORD_TOO_SHORT = `Password must be at least ${MIN_PASSWORD_LENGTH} characters`;
+
+export type LoginValues = {
+  email: string;
+  password: string;
+};
+
+export const loginSchema: FormSchema<LoginValues> = {
+  email: [required("Email is required"), isEmail()],
+  password: [required("Password is required")],
+};
+
+export type MagicLinkValues = {
+  email: string;
+};
+
+export const magicLinkSchema: FormSchema<MagicLinkValues> = {
+  email: [required("Email is required"), isEmail()],
+};
+
+export type RegisterValues = {
+  name: string;
+  email: string;
+  password: string;
+  confirmPassword: string;
+};
+
+export const registerSchema: FormSchema<RegisterValues> = {
+  name: [required("Name is required"), maxLength(NAME_MAX_LENGTH)],
+  email: [required("Email is required"), isEmail()],
+  password: [
+    required("Password is required"),
+    minLength(MIN_PASSWORD_LENGTH, PASSWORD_TOO_SHORT),
+  ],
+  confirmPassword: [
+    required("Please confirm your password"),
+    sameAs("password", "Passwords don't match"),
+  ],
+};
+
+export type ResetPasswordValues = {
+  password: string;
+  confirmPassword: string;
+};
+
+export const resetPasswordSchema: FormSchema<ResetPasswordValues> = {
+  password: [
+    required("Password is required"),
+    minLength(MIN_PASSWORD_LENGTH, PASSWORD_TOO_SHORT),
+  ],
+  confirmPassword: [
+    required("Please confirm your password"),
+    sameAs("password", "Passwords don't match"),
+  ],
+};
+
+export type ChangePasswordValues = {
+  oldPassword: string;
+  newPassword: string;
+  confirmPassword: string;
+};
+
+export const changePasswordSchema: FormSchema<ChangePasswordValues> = {
+  oldPassword: [required("Current password is required")],
+  newPassword: [
+    required("New password is required"),
+    minLength(MIN_PASSWORD_LENGTH, PASSWORD_TOO_SHORT),
+    differentFrom(
+      "oldPassword",
+      "New password must be different from the old one"
+    ),
+  ],
+  confirmPassword: [
+    required("Please confirm your new password"),
+    sameAs("newPassword", "Passwords don't match"),
+  ],
+};
+
+export type ProfileValues = {
+  name: string;
+  skillLevel: string;
+};
+
+export const profileSchema: FormSchema<ProfileValues> = {
+  name: [required("Name is required"), maxLength(NAME_MAX_LENGTH)],
+  skillLevel: [
+    oneOf(
+      SKILL_LEVELS.map((level) => level.value),
+      "Choose a skill level"
+    ),
+  ],
+};
@@ -0,0 +1,142 @@
+"use client";
+
+import { useCallback, useMemo, useRef, useState } from "react";
+import { isApiError } from "@/lib/api/errors";
+import {
+  FieldErrors,
+  FormSchema,
+  FormValues,
+  validateValues,
+} from "./validation";
+
+type FieldFlags<V extends FormValues> = Partial<Record<keyof V, boolean>>;
+
+interface UseFormOptions<V extends FormValues> {
+  initialValues: V;
+  schema: FormSchema<V>;
+  // Backend field names that differ from the form's, e.g. newPassword
+  serverFieldNames?: Record<string, keyof V>;
+}
+
+// Form state driven by a schema. Client errors show up once a field has been
+// blurred or the form submitted; errors from the backend stay on their field
+// until it is edited.
+export function useForm<V extends FormValues>({
+  initialValues,
+  schema,
+  serverFieldNames,
+}: UseFormOptions<V>) {
+  const [values, setValues] = useState(initialValues);
+  const [savedValues, setSavedValues] = useState(initialValues);
+  // Lets reset() fall back to the saved values without depending on them
+  const savedValuesRef = useRef(initialValues);
+  const [touched, setTouched] = useState<FieldFlags<V>>({});
+  const [submitted, setSubmitted] = useState(false);
+  const [serverErrors, setServerErrors] = useState<FieldErrors<V>>({});
+
+  const clientErrors = useMemo(
+    () => validateValues(schema, values),
+    [schema, values]
+  );
+  const isValid = Object.keys(clientErrors).length === 0;
+
+  const { errors, dirty } = useMemo(() => {
+    const errors: FieldErrors<V> = {};
+    const dirty: FieldFlags<V> = {};
+    for (const name of Object.keys(values) as (keyof V)[]) {
+      const error =
+        serverErrors[name] ||
+        (touched[name] || submitted ? clientErrors[name] : undefined);
+      if (error) {
+        errors[name] = error;
+      }
+      if (values[name] !== savedValues[name]) {
+        dirty[name] = true;
+      }
+    }
+    return { errors, dirty };
+  }, [values, savedValues, touched, submitted, serverErrors, clientErrors]);
+  const isDirty = Object.keys(dirty).length > 0;
+  const hasServerErrors = Object.keys(serverErrors).length > 0;
+
+  const setValue = useCallback((name: keyof V, value: string) => {
+    setValues((previous) => ({ ...previous, [name]: value }));
+    setServerErrors((previous) => {
+      const next = { ...previous };
+      delete next[name];
+      return next;
+    });
+  }, []);
+
+  const getFieldProps = useCallback(
+    (name: keyof V) => ({
+      id: String(name),
+      name: String(name),
+      value: values[name],
+      onChange: (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) =>
+        setValue(name, e.target.value),
+      onBlur: () => setTouched((previous) => ({ ...previous, [name]: true })),
+      "aria-invalid": !!errors[name],
+    }),
+    [values, errors, setValue]
+  );
+
+  // Validates everything before calling onValid; invalid forms just reveal
+  // their errors
+  const handleSubmit = useCallback(
+    (onValid: (values: V) => void | Promise<void>) =>
+      async (e: React.FormEvent) => {
+        e.preventDefault();
+        setSubmitted(true);
+        if (!isValid) return;
+        await onValid(values);
+      },
+    [isValid, values]
+  );
+
+  // Puts the field errors of a failed request next to the matching inputs.
+  // Returns whether any of them belonged to this form.
+  const applyApiError = useCallback(
+    (error: unknown) => {
+      if (!isApiError(error) || error.kind !== "validation") {
+        setServerErrors({});
+        return false;
+      }
+      const mapped: FieldErrors<V> = {};
+      for (const [field, message] of Object.entries(error.fieldErrors)) {
+        const name = serverFieldNames?.[field] || field;
+        if (name in savedValuesRef.current) {
+          mapped[name as keyof V] = message;
+        }
+      }
+      setServerErrors(mapped);
+      return Object.keys(mapped).length > 0;
+    },
+    [serverFieldNames]
+  );
+
+  // Start over from new values, e.g. once they've been loaded or saved
+  const reset = useCallback((nextValues: V = savedValuesRef.current) => {
+    savedValuesRef.current = nextValues;
+    setValues(nextValues);
+    setSavedValues(nextValues);
+    setTouched({});
+    setSubmitted(false);
+    setServerErrors({});
+  }, []);
+
+  return {
+    values,
+    errors,
+    touched,
+    dirty,
+    isDirty,
+    isValid,
+    hasServerErrors,
+    setValue,
+    getFieldProps,
+    handleSubmit,
+    applyApiError,
+    reset,
+  };
+}
@@ -0,0 +1,100 @@
+// Minimal schema validation for forms. A schema lists the rules for each
+// field; the first rule that fails decides the field's error message.
+export type FormValues = Record<string, string>;
+
+export type FieldErrors<V extends FormValues> = Partial<
+  Record<keyof V, string>
+>;
+
+// Returns an error message, or undefined when the value passes
+export type Rule<V extends FormValues> = (
+  value: string,
+  values: V
+) => string | undefined;
+
+export type FormSchema<V extends FormValues> = {
+  [K in keyof V]?: Rule<V>[];
+};
+
+export function validateField<V extends FormValues>(
+  schema: FormSchema<V>,
+  name: keyof V,
+  values: V
+) {
+  for (const rule of schema[name] || []) {
+    const error = rule(values[name], values);
+    if (error) {
+      return error;
+    }
+  }
+  return undefined;
+}
+
+export function validateValues<V extends FormValues>(
+  schema: FormSchema<V>,
+  values: V
+) {
+  const errors: FieldErrors<V> = {};
+  for (const name of Object.keys(schema) as (keyof V)[]) {
+    const error = validateField(schema, name, values);
+    if (error) {
+      errors[name] = error;
+    }
+  }
+  return errors;
+}
+
+// Rules
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+export function required<V extends FormValues>(
+  message = "This field is required"
+): Rule<V> {
+  return (value) => (value.trim() ? undefined : message);
+}
+
+export function isEmail<V extends FormValues>(
+  message = "Enter a valid email address"
+): Rule<V> {
+  return (value) =>
+    !value || EMAIL_PATTERN.test(value.trim()) ? undefined : message;
+}
+
+export function minLength<V extends FormValues>(
+  length: number,
+  message = `Must be at least ${length} characters`
+): Rule<V> {
+  return (value) => (!value || value.length >= length ? undefined : message);
+}
+
+export function maxLength<V extends FormValues>(
+  length: number,
+  message = `Must be at most ${length} characters`
+): Rule<V> {
+  return (value) => (value.length <= length ? undefined : message);
+}
+
+export function oneOf<V extends FormValues>(
+  options: string[],
+  message = "Choose one of the options"
+): Rule<V> {
+  return (value) => (options.includes(value) ? undefined : message);
+}
+
+// For confirmation fields, e.g. "confirm password"
+export function sameAs<V extends FormValues>(
+  field: keyof V,
+  message: string
+): Rule<V> {
+  return (value, values) => (value === values[field] ? undefined : message);
+}
+
+// For replacement fields, e.g. a new password that must not reuse the old one
+export function differentFrom<V extends FormValues>(
+  field: keyof V,
+  message: string
+): Rule<V> {
+  return (value, values) =>
+    !value || value !== values[field] ? undefined : message;
+}
@@ -0,0 +1,2 @@
+// The only CAPTCHA token the mock backend accepts, sent by MockCaptchaWidget
+export const MOCK_CAPTCHA_TOKEN = "mock-captcha";
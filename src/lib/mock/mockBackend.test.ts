@@ -0,0 +1,317 @@
+import {
+  afterEach,
+  beforeEach,
+  describe,
+  expect,
+  it,
+  MockInstance,
+  vi,
+} from "vitest";
+import { MOCK_CAPTCHA_TOKEN } from "./captcha";
+import { handleMockRequest, MOCK_TOTP_CODE, MockRequest } from "./mockBackend";
+
+const CSRF_TOKEN = "test-csrf-token";
+
+let consoleLog: MockInstance<typeof console.log>;
+
+function send(
+  method: string,
+  path: string,
+  overrides: Partial<MockRequest> = {}
+) {
+  return handleMockRequest({
+    method,
+    path,
+    body: {},
+    sessionId: null,
+    userAgent: "vitest",
+    ip: "127.0.0.1",
+    csrfCookie: CSRF_TOKEN,
+    csrfHeader: CSRF_TOKEN,
+    ...overrides,
+  });
+}
+
+function login(password: string, captchaToken?: string) {
+  return send("POST", "/auth/login", {
+    body: { email: "demo@example.com", password, captchaToken },
+  });
+}
+
+// Password step for the account that has two-factor auth on
+function startTwoFactorLogin() {
+  const response = send("POST", "/auth/login", {
+    body: { email: "2fa@example.com", password: "password123" },
+  });
+  return (response.body as { challengeId: string }).challengeId;
+}
+
+function verifyTwoFactor(challengeId: string, code: Record<string, string>) {
+  return send("POST", "/auth/2fa/verify", {
+    body: { challengeId, ...code },
+  });
+}
+
+// The mock "emails" sign-in links by logging them
+function requestMagicLink(email: string) {
+  send("POST", "/auth/magic-link", { body: { email } });
+  const line = String(consoleLog.mock.calls.at(-1)?.[0] ?? "");
+  return line.match(/token=([^&\s]+)/)?.[1];
+}
+
+beforeEach(() => {
+  // Every test starts from the seeded accounts
+  Reflect.deleteProperty(globalThis, "mockBackendState");
+  consoleLog = vi.spyOn(console, "log").mockImplementation(() => {});
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+  vi.useRealTimers();
+});
+
+describe("CSRF", () => {
+  it("hands out a token along with the cookie to set", () => {
+    const response = send("GET", "/auth/csrf-token");
+
+    expect(response.status).toBe(200);
+    expect(response.csrfToken).toBeTruthy();
+    expect(response.body).toEqual({ csrfToken: response.csrfToken });
+  });
+
+  it("rejects state-changing requests whose header doesn't match the cookie", () => {
+    const missing = send("POST", "/auth/logoutExtension", {
+      csrfHeader: null,
+    });
+    const mismatched = send("POST", "/auth/logoutExtension", {
+      csrfHeader: "something-else",
+    });
+
+    for (const response of [missing, mismatched]) {
+      expect(response.status).toBe(403);
+      expect(response.body).toMatchObject({ code: "EBADCSRFTOKEN" });
+    }
+  });
+
+  it("lets GET requests through without a token", () => {
+    const response = send("GET", "/auth/me", {
+      csrfCookie: null,
+      csrfHeader: null,
+    });
+
+    expect(response.status).toBe(200);
+  });
+});
+
+describe("login throttling", () => {
+  it("asks for the CAPTCHA from the third failure on", () => {
+    expect(login("wrong").body).toMatchObject({ captchaRequired: false });
+    expect(login("wrong").body).toMatchObject({ captchaRequired: false });
+    expect(login("wrong").body).toMatchObject({ captchaRequired: true });
+
+    const withoutCaptcha = login("password123");
+    expect(withoutCaptcha.status).toBe(401);
+    expect(withoutCaptcha.body).toMatchObject({ captchaRequired: true });
+
+    expect(login("password123", MOCK_CAPTCHA_TOKEN).status).toBe(200);
+  });
+
+  it("locks the email out for 30 seconds after five failures", () => {
+    vi.useFakeTimers();
+    for (let i = 0; i < 5; i++) {
+      login("wrong", MOCK_CAPTCHA_TOKEN);
+    }
+
+    const locked = login("password123", MOCK_CAPTCHA_TOKEN);
+    expect(locked.status).toBe(429);
+    expect(locked.body).toMatchObject({ locked: true });
+    expect(locked.headers).toEqual({ "Retry-After": "30" });
+
+    vi.advanceTimersByTime(30 * 1000);
+    expect(login("password123", MOCK_CAPTCHA_TOKEN).status).toBe(200);
+  });
+
+  it("starts counting again after a successful login", () => {
+    login("wrong");
+    login("wrong");
+    expect(login("password123").status).toBe(200);
+
+    expect(login("wrong").body).toMatchObject({ captchaRequired: false });
+  });
+});
+
+describe("sign-in links", () => {
+  it("signs the user in once and refuses the link after that", () => {
+    const token = requestMagicLink("demo@example.com");
+    expect(token).toBeTruthy();
+
+    const first = send("POST", "/auth/magic-link/verify", { body: { token } });
+    expect(first.status).toBe(200);
+    expect(first.sessionId).toBeTruthy();
+    expect(first.body).toMatchObject({
+      user: { email: "demo@example.com" },
+    });
+
+    const again = send("POST", "/auth/magic-link/verify", { body: { token } });
+    expect(again.status).toBe(410);
+    expect(again.sessionId).toBeUndefined();
+  });
+
+  it("refuses a link once its 15 minutes are up", () => {
+    vi.useFakeTimers();
+    const token = requestMagicLink("demo@example.com");
+
+    vi.advanceTimersByTime(15 * 60 * 1000 + 1);
+    const response = send("POST", "/auth/magic-link/verify", {
+      body: { token },
+    });
+
+    expect(response.status).toBe(410);
+    expect(response.body).toMatchObject({
+      message: "This sign-in link has expired.",
+    });
+  });
+
+  it("rejects unknown tokens", () => {
+    const response = send("POST", "/auth/magic-link/verify", {
+      body: { token: "not-a-real-token" },
+    });
+
+    expect(response.status).toBe(400);
+  });
+
+  it("answers the same whether or not the email has an account", () => {
+    const known = send("POST", "/auth/magic-link", {
+      body: { email: "demo@example.com" },
+    });
+    const unknown = send("POST", "/auth/magic-link", {
+      body: { email: "nobody@example.com" },
+    });
+
+    expect(unknown).toEqual(known);
+  });
+});
+
+describe("two-factor authentication", () => {
+  it("answers the password step with a challenge instead of a session", () => {
+    const response = send("POST", "/auth/login", {
+      body: { email: "2fa@example.com", password: "password123" },
+    });
+
+    expect(response.status).toBe(200);
+    expect(response.body).toMatchObject({ twoFactorRequired: true });
+    expect(response.sessionId).toBeUndefined();
+  });
+
+  it("signs in with the authenticator code", () => {
+    const challengeId = startTwoFactorLogin();
+
+    const response = verifyTwoFactor(challengeId, { code: MOCK_TOTP_CODE });
+
+    expect(response.status).toBe(200);
+    expect(response.sessionId).toBeTruthy();
+    expect(response.body).toMatchObject({
+      user: { email: "2fa@example.com", twoFactorEnabled: true },
+    });
+  });
+
+  it("rejects a wrong code on its field and keeps the challenge open", () => {
+    const challengeId = startTwoFactorLogin();
+
+    const wrong = verifyTwoFactor(challengeId, { code: "000000" });
+    expect(wrong.status).toBe(400);
+    expect(wrong.body).toMatchObject({ errors: { code: expect.any(String) } });
+    expect(wrong.sessionId).toBeUndefined();
+
+    expect(verifyTwoFactor(challengeId, { code: MOCK_TOTP_CODE }).status).toBe(
+      200
+    );
+  });
+
+  it("accepts each recovery code only once", () => {
+    const first = verifyTwoFactor(startTwoFactorLogin(), {
+      recoveryCode: "recovery-1",
+    });
+    expect(first.status).toBe(200);
+
+    const reused = verifyTwoFactor(startTwoFactorLogin(), {
+      recoveryCode: "recovery-1",
+    });
+    expect(reused.status).toBe(400);
+    expect(reused.body).toMatchObject({
+      errors: { recoveryCode: expect.any(String) },
+    });
+  });
+
+  it("refuses a challenge once it has been used", () => {
+    const challengeId = startTwoFactorLogin();
+    verifyTwoFactor(challengeId, { code: MOCK_TOTP_CODE });
+
+    expect(verifyTwoFactor(challengeId, { code: MOCK_TOTP_CODE }).status).toBe(
+      400
+    );
+  });
+
+  it("enables two-factor auth once setup is confirmed with a code", () => {
+    const { sessionId } = login("password123");
+
+    expect(
+      send("POST", "/auth/2fa/enable", {
+        sessionId,
+        body: { code: MOCK_TOTP_CODE },
+      }).status
+    ).toBe(400);
+
+    send("POST", "/auth/2fa/setup", { sessionId });
+    const enabled = send("POST", "/auth/2fa/enable", {
+      sessionId,
+      body: { code: MOCK_TOTP_CODE },
+    });
+
+    expect(enabled.status).toBe(200);
+    expect(
+      (enabled.body as { recoveryCodes: string[] }).recoveryCodes
+    ).toHaveLength(8);
+    expect(login("password123").body).toMatchObject({
+      twoFactorRequired: true,
+    });
+  });
+
+  it("only disables two-factor auth with a valid code", () => {
+    const { sessionId } = verifyTwoFactor(startTwoFactorLogin(), {
+      code: MOCK_TOTP_CODE,
+    });
+
+    const withoutCode = send("POST", "/auth/2fa/disable", { sessionId });
+    expect(withoutCode.status).toBe(400);
+    const wrongCode = send("POST", "/auth/2fa/disable", {
+      sessionId,
+      body: { code: "000000" },
+    });
+    expect(wrongCode.status).toBe(400);
+
+    const disabled = send("POST", "/auth/2fa/disable", {
+      sessionId,
+      body: { code: MOCK_TOTP_CODE },
+    });
+    expect(disabled.status).toBe(200);
+    expect(
+      send("POST", "/auth/login", {
+        body: { email: "2fa@example.com", password: "password123" },
+      }).sessionId
+    ).toBeTruthy();
+  });
+
+  it("needs a signed-in user to change the settings", () => {
+    for (const path of [
+      "/auth/2fa/setup",
+      "/auth/2fa/enable",
+      "/auth/2fa/disable",
+      "/auth/2fa/recovery-codes",
+    ]) {
+      expect(
+        send("POST", path, { body: { code: MOCK_TOTP_CODE } }).status
+      ).toBe(401);
+    }
+  });
+});
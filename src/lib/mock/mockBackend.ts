@@ -0,0 +1,562 @@
+import type { User } from "@/lib/redux/features/auth/authSlice";
+import { MOCK_CAPTCHA_TOKEN } from "./captcha";
+
+// A tiny in-memory stand-in for the auth backend, served from /api/mock so
+// flows can be tried without the real API. Only the endpoints the frontend
+// needs for login, registration, email verification, sign-in links, active
+// sessions and two-factor auth are implemented. Authenticator codes aren't really
+// checked: MOCK_TOTP_CODE is always the current code. CSRF is checked the
+// double-submit way: every non-GET request must send the token from the csrf
+// cookie in a header. Failed logins for an email first call for a CAPTCHA,
+// then lock the email out for a while.
+export const MOCK_TOTP_CODE = "123456";
+
+const CAPTCHA_AFTER_FAILURES = 3;
+const LOCK_AFTER_FAILURES = 5;
+const LOCKOUT_MS = 30 * 1000;
+const MAGIC_LINK_TTL_MS = 15 * 60 * 1000;
+
+interface MockAccount {
+  user: User;
+  password: string;
+  totpSecret: string | null;
+  // Set by /auth/2fa/setup until /auth/2fa/enable confirms it
+  pendingTotpSecret: string | null;
+  recoveryCodes: string[];
+}
+
+interface MockSession {
+  // Shown to the client instead of the session id, which is the cookie value
+  publicId: string;
+  userId: string;
+  userAgent: string;
+  ip: string;
+  createdAt: string;
+  lastSeenAt: string;
+}
+
+interface MockState {
+  accounts: MockAccount[];
+  // Session id (the cookie value) -> session
+  sessions: Map<string, MockSession>;
+  // Challenge id -> user id, for logins waiting on a second factor
+  challenges: Map<string, string>;
+  // Email verification token -> user id
+  verificationTokens: Map<string, string>;
+  // Sign-in link token -> who it signs in, until when, and whether it's spent
+  magicLinks: Map<string, { userId: string; expiresAt: number; used: boolean }>;
+  // Email -> failed logins since the last success
+  loginFailures: Map<string, { count: number; lockedUntil: number }>;
+}
+
+export interface MockRequest {
+  method: string;
+  path: string;
+  body: Record<string, unknown>;
+  sessionId: string | null;
+  userAgent: string;
+  ip: string;
+  // CSRF token from the cookie and from the X-CSRF-Token header
+  csrfCookie: string | null;
+  csrfHeader: string | null;
+}
+
+export interface MockResponse {
+  status: number;
+  body?: unknown;
+  // A new session id to set, or null to clear the cookie
+  sessionId?: string | null;
+  // Keep the new session cookie after the browser closes ("remember me")
+  persistent?: boolean;
+  // A new CSRF token to set as a cookie
+  csrfToken?: string;
+  headers?: Record<string, string>;
+}
+
+function generateRecoveryCodes() {
+  return Array.from({ length: 8 }, () =>
+    crypto.randomUUID().replace(/-/g, "").slice(0, 10)
+  );
+}
+
+function generateTotpSecret() {
+  const alphabet = "ABCDEFGHIJKLMNOPQRSTUVWXYZ234567";
+  return Array.from(
+    crypto.getRandomValues(new Uint8Array(16)),
+    (byte) => alphabet[byte % alphabet.length]
+  ).join("");
+}
+
+function createState(): MockState {
+  return {
+    accounts: [
+      {
+        user: {
+          _id: "mock-user-1",
+          email: "demo@example.com",
+          name: "Demo User",
+          roles: ["author"],
+          twoFactorEnabled: false,
+          emailVerified: true,
+        },
+        password: "password123",
+        totpSecret: null,
+        pendingTotpSecret: null,
+        recoveryCodes: [],
+      },
+      {
+        user: {
+          _id: "mock-user-2",
+          email: "2fa@example.com",
+          name: "Two Factor User",
+          roles: ["editor"],
+          twoFactorEnabled: true,
+          emailVerified: true,
+        },
+        password: "password123",
+        totpSecret: generateTotpSecret(),
+        pendingTotpSecret: null,
+        recoveryCodes: ["recovery-1", "recovery-2", "recovery-3"],
+      },
+    ],
+    sessions: new Map(),
+    challenges: new Map(),
+    verificationTokens: new Map(),
+    magicLinks: new Map(),
+    loginFailures: new Map(),
+  };
+}
+
+// Kept on globalThis so dev-server reloads don't log everyone out
+const globalForMock = globalThis as typeof globalThis & {
+  mockBackendState?: MockState;
+};
+
+function getState() {
+  if (!globalForMock.mockBackendState) {
+    globalForMock.mockBackendState = createState();
+  }
+  return globalForMock.mockBackendState;
+}
+
+function findAccount(userId: string | undefined) {
+  return getState().accounts.find((account) => account.user._id === userId);
+}
+
+function startSession(
+  account: MockAccount,
+  { userAgent, ip, body }: MockRequest
+): MockResponse {
+  const sessionId = crypto.randomUUID();
+  const now = new Date().toISOString();
+  getState().sessions.set(sessionId, {
+    publicId: crypto.randomUUID(),
+    userId: account.user._id,
+    userAgent,
+    ip,
+    createdAt: now,
+    lastSeenAt: now,
+  });
+  return {
+    status: 200,
+    body: { success: true, user: account.user },
+    sessionId,
+    persistent: body.rememberMe === true,
+  };
+}
+
+// There's no mail server, so the link goes to the dev server's console
+function sendVerificationEmail(account: MockAccount) {
+  const token = crypto.randomUUID();
+  getState().verificationTokens.set(token, account.user._id);
+  console.log(
+    `[mock backend] Verify ${account.user.email}: /auth/verify-email?token=${token}`
+  );
+}
+
+function sendMagicLink(account: MockAccount, next: unknown) {
+  const token = crypto.randomUUID();
+  getState().magicLinks.set(token, {
+    userId: account.user._id,
+    expiresAt: Date.now() + MAGIC_LINK_TTL_MS,
+    used: false,
+  });
+  const nextQuery =
+    typeof next === "string" && next ? `&next=${encodeURIComponent(next)}` : "";
+  console.log(
+    `[mock backend] Sign in ${account.user.email}: /auth/magic?token=${token}${nextQuery}`
+  );
+}
+
+function invalidCode(field = "code"): MockResponse {
+  return {
+    status: 400,
+    body: {
+      message: "Invalid authentication code",
+      errors: { [field]: "Invalid authentication code" },
+    },
+  };
+}
+
+// 429 while the email is locked out, or 401 asking for the CAPTCHA once
+// enough attempts have failed. Returns null when the attempt may go ahead.
+function checkLoginThrottle(
+  email: string,
+  captchaToken: unknown
+): MockResponse | null {
+  const failures = getState().loginFailures.get(email);
+  if (!failures) {
+    return null;
+  }
+  const waitMs = failures.lockedUntil - Date.now();
+  if (waitMs > 0) {
+    return {
+      status: 429,
+      body: { message: "Too many login attempts", locked: true },
+      headers: { "Retry-After": String(Math.ceil(waitMs / 1000)) },
+    };
+  }
+  if (
+    failures.count >= CAPTCHA_AFTER_FAILURES &&
+    captchaToken !== MOCK_CAPTCHA_TOKEN
+  ) {
+    return {
+      status: 401,
+      body: { message: "Please complete the CAPTCHA", captchaRequired: true },
+    };
+  }
+  return null;
+}
+
+function recordLoginFailure(email: string): MockResponse {
+  const { loginFailures } = getState();
+  const count = (loginFailures.get(email)?.count || 0) + 1;
+  loginFailures.set(email, {
+    count,
+    lockedUntil: count >= LOCK_AFTER_FAILURES ? Date.now() + LOCKOUT_MS : 0,
+  });
+  return {
+    status: 401,
+    body: {
+      message: "Invalid email or password",
+      captchaRequired: count >= CAPTCHA_AFTER_FAILURES,
+    },
+  };
+}
+
+function notSignedIn(): MockResponse {
+  return { status: 401, body: { message: "Not authenticated" } };
+}
+
+// Accepts the current authenticator code or, where allowed, a recovery code,
+// which is used up on success
+function checkSecondFactor(account: MockAccount, body: MockRequest["body"]) {
+  if (typeof body.recoveryCode === "string") {
+    const index = account.recoveryCodes.indexOf(body.recoveryCode.trim());
+    if (index === -1) {
+      return false;
+    }
+    account.recoveryCodes.splice(index, 1);
+    return true;
+  }
+  return body.code === MOCK_TOTP_CODE;
+}
+
+export function handleMockRequest(request: MockRequest): MockResponse {
+  const { method, path, body, sessionId, csrfCookie, csrfHeader } = request;
+  const state = getState();
+
+  if (method === "GET" && path === "/auth/csrf-token") {
+    const csrfToken = crypto.randomUUID();
+    return { status: 200, body: { csrfToken }, csrfToken };
+  }
+  if (method !== "GET" && (!csrfCookie || csrfCookie !== csrfHeader)) {
+    return {
+      status: 403,
+      body: { code: "EBADCSRFTOKEN", message: "Invalid CSRF token" },
+    };
+  }
+
+  const session = sessionId ? state.sessions.get(sessionId) : undefined;
+  const account = findAccount(session?.userId);
+  if (session) {
+    session.lastSeenAt = new Date().toISOString();
+  }
+
+  // Revoking a single session: DELETE /auth/sessions/:publicId
+  const revokeMatch =
+    method === "DELETE" && path.match(/^\/auth\/sessions\/([^/]+)$/);
+  if (revokeMatch && revokeMatch[1] !== "others") {
+    if (!account) {
+      return notSignedIn();
+    }
+    for (const [id, candidate] of state.sessions) {
+      if (
+        candidate.publicId === revokeMatch[1] &&
+        candidate.userId === account.user._id
+      ) {
+        state.sessions.delete(id);
+        return {
+          status: 200,
+          body: { success: true },
+          sessionId: id === sessionId ? null : undefined,
+        };
+      }
+    }
+    return { status: 404, body: { message: "Session not found" } };
+  }
+
+  switch (`${method} ${path}`) {
+    case "GET /auth/me":
+      return account
+        ? { status: 200, body: { authenticated: true, user: account.user } }
+        : { status: 200, body: { authenticated: false } };
+
+    case "POST /auth/login": {
+      const email = String(body.email || "").toLowerCase();
+      const throttled = checkLoginThrottle(email, body.captchaToken);
+      if (throttled) {
+        return throttled;
+      }
+      const match = state.accounts.find(
+        (candidate) =>
+          candidate.user.email === email && candidate.password === body.password
+      );
+      if (!match) {
+        return recordLoginFailure(email);
+      }
+      state.loginFailures.delete(email);
+      if (match.totpSecret) {
+        const challengeId = crypto.randomUUID();
+        state.challenges.set(challengeId, match.user._id);
+        return {
+          status: 200,
+          body: { success: true, twoFactorRequired: true, challengeId },
+        };
+      }
+      return startSession(match, request);
+    }
+
+    case "POST /auth/register": {
+      const email = String(body.email || "").toLowerCase();
+      if (state.accounts.some((candidate) => candidate.user.email === email)) {
+        return {
+          status: 400,
+          body: {
+            message: "Email is already registered",
+            errors: { email: "Email is already registered" },
+          },
+        };
+      }
+      const created: MockAccount = {
+        user: {
+          _id: `mock-user-${state.accounts.length + 1}`,
+          email,
+          name: String(body.name || ""),
+          roles: ["author"],
+          twoFactorEnabled: false,
+          emailVerified: false,
+        },
+        password: String(body.password || ""),
+        totpSecret: null,
+        pendingTotpSecret: null,
+        recoveryCodes: [],
+      };
+      state.accounts.push(created);
+      sendVerificationEmail(created);
+      return startSession(created, request);
+    }
+
+    case "POST /auth/verify-email": {
+      const token = String(body.token || "");
+      const verified = findAccount(state.verificationTokens.get(token));
+      if (!verified) {
+        return {
+          status: 400,
+          body: { message: "Invalid or expired verification link" },
+        };
+      }
+      state.verificationTokens.delete(token);
+      verified.user = { ...verified.user, emailVerified: true };
+      return { status: 200, body: { message: "Email verified" } };
+    }
+
+    case "POST /auth/resend-verification": {
+      const unverified = state.accounts.find(
+        (candidate) =>
+          candidate.user.email === body.email && !candidate.user.emailVerified
+      );
+      // Same answer either way so the endpoint can't be used to probe emails
+      if (unverified) {
+        sendVerificationEmail(unverified);
+      }
+      return {
+        status: 200,
+        body: { message: "If that address needs verifying, we sent a link" },
+      };
+    }
+
+    case "POST /auth/logoutExtension":
+      if (sessionId) {
+        state.sessions.delete(sessionId);
+      }
+      return { status: 200, body: { success: true }, sessionId: null };
+
+    case "POST /auth/magic-link": {
+      const requested = state.accounts.find(
+        (candidate) =>
+          candidate.user.email === String(body.email || "").toLowerCase()
+      );
+      // Same answer either way so the endpoint can't be used to probe emails
+      if (requested) {
+        sendMagicLink(requested, body.next);
+      }
+      return {
+        status: 200,
+        body: { message: "If that address has an account, we sent a link" },
+      };
+    }
+
+    case "POST /auth/magic-link/verify": {
+      const link = state.magicLinks.get(String(body.token || ""));
+      const linked = findAccount(link?.userId);
+      if (!link || !linked) {
+        return {
+          status: 400,
+          body: { message: "This sign-in link isn't valid." },
+        };
+      }
+      if (link.used) {
+        return {
+          status: 410,
+          body: { message: "This sign-in link has already been used." },
+        };
+      }
+      if (link.expiresAt < Date.now()) {
+        return {
+          status: 410,
+          body: { message: "This sign-in link has expired." },
+        };
+      }
+      link.used = true;
+      // Opening the link proves the address is theirs
+      linked.user = { ...linked.user, emailVerified: true };
+      return startSession(linked, request);
+    }
+
+    case "POST /auth/2fa/verify": {
+      const challengeId = String(body.challengeId || "");
+      const challenged = findAccount(state.challenges.get(challengeId));
+      if (!challenged) {
+        return {
+          status: 400,
+          body: { message: "This sign-in attempt has expired" },
+        };
+      }
+      if (!checkSecondFactor(challenged, body)) {
+        return invalidCode(body.recoveryCode ? "recoveryCode" : "code");
+      }
+      state.challenges.delete(challengeId);
+      return startSession(challenged, request);
+    }
+
+    case "GET /auth/sessions":
+      if (!account) {
+        return notSignedIn();
+      }
+      return {
+        status: 200,
+        body: Array.from(state.sessions.entries())
+          .filter(([, candidate]) => candidate.userId === account.user._id)
+          .map(([id, candidate]) => ({
+            id: candidate.publicId,
+            current: id === sessionId,
+            userAgent: candidate.userAgent,
+            ip: candidate.ip,
+            createdAt: candidate.createdAt,
+            lastSeenAt: candidate.lastSeenAt,
+          })),
+      };
+
+    case "DELETE /auth/sessions/others":
+      if (!account) {
+        return notSignedIn();
+      }
+      for (const [id, candidate] of state.sessions) {
+        if (candidate.userId === account.user._id && id !== sessionId) {
+          state.sessions.delete(id);
+        }
+      }
+      return { status: 200, body: { success: true } };
+
+    case "POST /auth/2fa/setup": {
+      if (!account) {
+        return notSignedIn();
+      }
+      const secret = generateTotpSecret();
+      account.pendingTotpSecret = secret;
+      const otpauthUrl = `otpauth://totp/MockApp:${encodeURIComponent(
+        account.user.email
+      )}?secret=${secret}&issuer=MockApp`;
+      // Not a scannable code, just something to show where the QR goes
+      const placeholderSvg = `<svg xmlns="http://www.w3.org/2000/svg" width="192" height="192"><rect width="192" height="192" fill="#fff" stroke="#000" stroke-width="8"/><text x="96" y="90" font-family="monospace" font-size="14" text-anchor="middle">MOCK QR</text><text x="96" y="114" font-family="monospace" font-size="14" text-anchor="middle">code ${MOCK_TOTP_CODE}</text></svg>`;
+      return {
+        status: 200,
+        body: {
+          secret,
+          otpauthUrl,
+          qrCodeDataUrl: `data:image/svg+xml;utf8,${encodeURIComponent(
+            placeholderSvg
+          )}`,
+        },
+      };
+    }
+
+    case "POST /auth/2fa/enable":
+      if (!account) {
+        return notSignedIn();
+      }
+      if (!account.pendingTotpSecret) {
+        return {
+          status: 400,
+          body: { message: "Start two-factor setup first" },
+        };
+      }
+      if (body.code !== MOCK_TOTP_CODE) {
+        return invalidCode();
+      }
+      account.totpSecret = account.pendingTotpSecret;
+      account.pendingTotpSecret = null;
+      account.recoveryCodes = generateRecoveryCodes();
+      account.user = { ...account.user, twoFactorEnabled: true };
+      return { status: 200, body: { recoveryCodes: account.recoveryCodes } };
+
+    case "POST /auth/2fa/disable":
+      if (!account) {
+        return notSignedIn();
+      }
+      if (!checkSecondFactor(account, body)) {
+        return invalidCode();
+      }
+      account.totpSecret = null;
+      account.recoveryCodes = [];
+      account.user = { ...account.user, twoFactorEnabled: false };
+      return { status: 200, body: { success: true } };
+
+    case "POST /auth/2fa/recovery-codes":
+      if (!account) {
+        return notSignedIn();
+      }
+      if (body.code !== MOCK_TOTP_CODE) {
+        return invalidCode();
+      }
+      account.recoveryCodes = generateRecoveryCodes();
+      return { status: 200, body: { recoveryCodes: account.recoveryCodes } };
+
+    default:
+      return {
+        status: 404,
+        body: { message: `${method} ${path} is not part of the mock backend` },
+      };
+  }
+}
@@ -0,0 +1,7 @@
+import { createAsyncThunk } from "@reduxjs/toolkit";
+import type { ApiError } from "@/lib/api/errors";
+
+// createAsyncThunk preconfigured so rejectWithValue always carries an ApiError
+export const createAppAsyncThunk = createAsyncThunk.withTypes<{
+  rejectValue: ApiError;
+}>();
@@ -0,0 +1,254 @@
+import { createApi } from "@reduxjs/toolkit/query/react";
+import { apiBaseQuery } from "@/lib/api/baseQuery";
+import { apiClient } from "@/lib/api/client";
+import { refreshCsrfToken } from "@/lib/api/csrf";
+import type { User } from "./authSlice";
+
+export interface SessionResponse {
+  authenticated: boolean;
+  user?: User;
+}
+
+export interface AuthResponse {
+  success?: boolean;
+  user: User;
+}
+
+// Sent instead of a session when the account has two-factor auth turned on.
+// The login only completes once /auth/2fa/verify accepts a code.
+export interface TwoFactorChallengeResponse {
+  success?: boolean;
+  twoFactorRequired: true;
+  challengeId?: string;
+}
+
+export type LoginResponse = AuthResponse | TwoFactorChallengeResponse;
+
+export interface LoginCredentials {
+  email: string;
+  password: string;
+  // Ask for a long-lived session instead of one that ends with the browser
+  rememberMe?: boolean;
+  // Only sent once the backend (or too many failures) calls for a CAPTCHA
+  captchaToken?: string;
+}
+
+export function isTwoFactorChallenge(
+  response: LoginResponse
+): response is TwoFactorChallengeResponse {
+  return "twoFactorRequired" in response && response.twoFactorRequired;
+}
+
+// Either a code from the authenticator app or one of the recovery codes
+export interface TwoFactorCode {
+  code?: string;
+  recoveryCode?: string;
+}
+
+export interface TwoFactorSetupResponse {
+  secret: string;
+  otpauthUrl: string;
+  // Image of the otpauth URL, ready to use as an <img> src
+  qrCodeDataUrl?: string;
+}
+
+export interface RecoveryCodesResponse {
+  recoveryCodes: string[];
+}
+
+// One signed-in browser or device, as listed by /auth/sessions
+export interface ActiveSession {
+  id: string;
+  // True for the session making the request
+  current: boolean;
+  userAgent?: string;
+  device?: string;
+  browser?: string;
+  ip?: string;
+  createdAt?: string;
+  lastSeenAt?: string;
+}
+
+// "Session" is the /auth/me result and "Profile" the /auth/profile result.
+// Anything that can change who is signed in, or what we know about them,
+// invalidates both so subscribed components refetch. "Sessions" is the list
+// of the user's signed-in devices, which belongs to whoever is signed in, so
+// anything that changes that invalidates it too.
+export const authApi = createApi({
+  reducerPath: "authApi",
+  baseQuery: apiBaseQuery,
+  tagTypes: ["Session", "Profile", "Sessions"],
+  endpoints: (builder) => ({
+    getMe: builder.query<SessionResponse, void>({
+      query: () => "/auth/me",
+      providesTags: ["Session"],
+      // The CSRF token is tied to the session, so fetch a new one whenever
+      // the session is checked (after login, logout, refocus...)
+      onQueryStarted: () => {
+        refreshCsrfToken(apiClient);
+      },
+    }),
+    login: builder.mutation<LoginResponse, LoginCredentials>({
+      query: (credentials) => ({
+        url: "/auth/login",
+        method: "POST",
+        data: credentials,
+      }),
+      invalidatesTags: ["Session", "Profile", "Sessions"],
+    }),
+    register: builder.mutation<
+      AuthResponse,
+      { email: string; password: string; name: string }
+    >({
+      query: (userData) => ({
+        url: "/auth/register",
+        method: "POST",
+        data: userData,
+      }),
+      invalidatesTags: ["Session", "Profile", "Sessions"],
+    }),
+    logout: builder.mutation<void, void>({
+      query: () => ({ url: "/auth/logoutExtension", method: "POST" }),
+      invalidatesTags: ["Session", "Profile", "Sessions"],
+    }),
+    verifyEmail: builder.mutation<{ message?: string }, { token: string }>({
+      query: (data) => ({ url: "/auth/verify-email", method: "POST", data }),
+      invalidatesTags: ["Session", "Profile"],
+    }),
+    resendVerificationEmail: builder.mutation<
+      { message?: string },
+      { email: string }
+    >({
+      query: (data) => ({
+        url: "/auth/resend-verification",
+        method: "POST",
+        data,
+      }),
+    }),
+    requestMagicLink: builder.mutation<
+      { message?: string },
+      { email: string; next?: string }
+    >({
+      query: (data) => ({ url: "/auth/magic-link", method: "POST", data }),
+    }),
+    // Trades the token from a sign-in email for a session
+    verifyMagicLink: builder.mutation<AuthResponse, { token: string }>({
+      query: (data) => ({
+        url: "/auth/magic-link/verify",
+        method: "POST",
+        data,
+      }),
+      invalidatesTags: ["Session", "Profile", "Sessions"],
+    }),
+    verifyTwoFactor: builder.mutation<
+      AuthResponse,
+      TwoFactorCode & { challengeId?: string; rememberMe?: boolean }
+    >({
+      query: (verification) => ({
+        url: "/auth/2fa/verify",
+        method: "POST",
+        data: verification,
+      }),
+      invalidatesTags: ["Session", "Profile", "Sessions"],
+    }),
+    startTwoFactorSetup: builder.mutation<TwoFactorSetupResponse, void>({
+      query: () => ({ url: "/auth/2fa/setup", method: "POST" }),
+    }),
+    enableTwoFactor: builder.mutation<RecoveryCodesResponse, { code: string }>({
+      query: (data) => ({ url: "/auth/2fa/enable", method: "POST", data }),
+      invalidatesTags: ["Session", "Profile"],
+    }),
+    disableTwoFactor: builder.mutation<void, TwoFactorCode>({
+      query: (data) => ({ url: "/auth/2fa/disable", method: "POST", data }),
+      invalidatesTags: ["Session", "Profile"],
+    }),
+    regenerateRecoveryCodes: builder.mutation<
+      RecoveryCodesResponse,
+      { code: string }
+    >({
+      query: (data) => ({
+        url: "/auth/2fa/recovery-codes",
+        method: "POST",
+        data,
+      }),
+    }),
+    getSessions: builder.query<ActiveSession[], void>({
+      query: () => "/auth/sessions",
+      transformResponse: (
+        response: ActiveSession[] | { sessions: ActiveSession[] }
+      ) => (Array.isArray(response) ? response : response.sessions),
+      providesTags: ["Sessions"],
+    }),
+    // Revoking the current session signs this browser out, so the session
+    // has to be refetched too, and the list must not keep showing it
+    revokeSession: builder.mutation<void, ActiveSession>({
+      query: (session) => ({
+        url: `/auth/sessions/${encodeURIComponent(session.id)}`,
+        method: "DELETE",
+      }),
+      invalidatesTags: (_result, _error, session) =>
+        session.current ? ["Session", "Profile", "Sessions"] : ["Sessions"],
+    }),
+    revokeOtherSessions: builder.mutation<void, void>({
+      query: () => ({ url: "/auth/sessions/others", method: "DELETE" }),
+      invalidatesTags: ["Sessions"],
+    }),
+    getProfile: builder.query<User, void>({
+      query: () => "/auth/profile",
+      transformResponse: (response: User | { user: User }) =>
+        "user" in response ? response.user : response,
+      providesTags: ["Profile"],
+    }),
+    updateProfile: builder.mutation<
+      User,
+      Partial<Pick<User, "name" | "skillLevel">>
+    >({
+      query: (profileData) => ({
+        url: "/auth/profile",
+        method: "PUT",
+        data: profileData,
+      }),
+      transformResponse: (response: User | { user: User }) =>
+        "user" in response ? response.user : response,
+      invalidatesTags: ["Session", "Profile"],
+    }),
+    updatePreferredLanguages: builder.mutation<string[], string[]>({
+      query: (languages) => ({
+        url: "/auth/languages",
+        method: "PUT",
+        data: { languages },
+      }),
+      transformResponse: (
+        response: string[] | { preferredLanguages?: string[] },
+        _meta,
+        languages
+      ) =>
+        Array.isArray(response)
+          ? response
+          : response.preferredLanguages || languages,
+      invalidatesTags: ["Session", "Profile"],
+    }),
+  }),
+});
+
+export const {
+  useGetMeQuery,
+  useLoginMutation,
+  useRegisterMutation,
+  useLogoutMutation,
+  useVerifyEmailMutation,
+  useResendVerificationEmailMutation,
+  useRequestMagicLinkMutation,
+  useVerifyMagicLinkMutation,
+  useVerifyTwoFactorMutation,
+  useStartTwoFactorSetupMutation,
+  useEnableTwoFactorMutation,
+  useDisableTwoFactorMutation,
+  useRegenerateRecoveryCodesMutation,
+  useGetSessionsQuery,
+  useRevokeSessionMutation,
+  useRevokeOtherSessionsMutation,
+  useGetProfileQuery,
+  useUpdateProfileMutation,
+  useUpdatePreferredLanguagesMutation,
+} = authApi;
@@ -0,0 +1,91 @@
+import { AxiosError, AxiosResponse, InternalAxiosRequestConfig } from "axios";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { apiClient } from "@/lib/api/client";
+import { makeStore } from "@/lib/redux/store";
+import {
+  initialState,
+  updatePreferredLanguages,
+  updateProfile,
+  User,
+} from "./authSlice";
+
+const user: User = {
+  _id: "user-1",
+  email: "demo@example.com",
+  name: "Old Name",
+  skillLevel: "beginner",
+  preferredLanguages: ["bangla"],
+};
+
+function respond(config: InternalAxiosRequestConfig, status: number) {
+  const response: AxiosResponse = {
+    data: status < 400 ? { csrfToken: "token" } : { message: "Server down" },
+    status,
+    statusText: "",
+    headers: {},
+    config,
+  };
+  if (status >= 400) {
+    throw new AxiosError(
+      `Request failed with status code ${status}`,
+      AxiosError.ERR_BAD_RESPONSE,
+      config,
+      null,
+      response
+    );
+  }
+  return response;
+}
+
+// Every update fails; GETs (the CSRF token) go through
+function createStore() {
+  apiClient.defaults.adapter = async (config) =>
+    respond(config, config.method === "get" ? 200 : 500);
+  return makeStore({
+    auth: { ...initialState, user, isAuthenticated: true },
+  });
+}
+
+beforeEach(() => {
+  vi.spyOn(console, "log").mockImplementation(() => {});
+  vi.spyOn(console, "error").mockImplementation(() => {});
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+  delete apiClient.defaults.adapter;
+});
+
+describe("optimistic profile updates", () => {
+  it("shows the new name while saving and restores it on failure", async () => {
+    const store = createStore();
+
+    const update = store.dispatch(updateProfile({ name: "New Name" }));
+    expect(store.getState().auth.user?.name).toBe("New Name");
+    await update;
+
+    expect(store.getState().auth.user).toEqual(user);
+    expect(store.getState().auth.profileUpdate.status).toBe("failed");
+  });
+
+  it("restores the old languages when saving them fails", async () => {
+    const store = createStore();
+
+    const update = store.dispatch(updatePreferredLanguages(["english"]));
+    expect(store.getState().auth.user?.preferredLanguages).toEqual(["english"]);
+    await update;
+
+    expect(store.getState().auth.user?.preferredLanguages).toEqual(["bangla"]);
+  });
+
+  it("keeps the first saved state when overlapping updates both fail", async () => {
+    const store = createStore();
+
+    const name = store.dispatch(updateProfile({ name: "New Name" }));
+    const languages = store.dispatch(updatePreferredLanguages(["english"]));
+    await Promise.all([name, languages]);
+
+    expect(store.getState().auth.user).toEqual(user);
+    expect(store.getState().auth.profileRollback).toBeNull();
+  });
+});
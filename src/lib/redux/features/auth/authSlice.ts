@@ -1,132 +1,448 @@
-/* eslint-disable @typescript-eslint/no-unused-vars */
-/* eslint-disable @typescript-eslint/no-explicit-any */
-import { createSlice, createAsyncThunk } from "@reduxjs/toolkit";
-import axios from "axios";
-
-const API_BASE_URL = process.env.NEXT_PUBLIC_API_URL || "http://localhost:4000";
-
-// Configure axios to include credentials for cross-origin requests
-axios.defaults.withCredentials = true;
+import {
+  createSlice,
+  current,
+  PayloadAction,
+  UnknownAction,
+} from "@reduxjs/toolkit";
+import { apiClient } from "@/lib/api/client";
+import { ApiError, rejectedApiError, toApiError } from "@/lib/api/errors";
+import { createAppAsyncThunk } from "../../createAppAsyncThunk";
+import type { Permission, Role } from "@/lib/auth/permissions";
+import {
+  authApi,
+  isTwoFactorChallenge,
+  LoginCredentials,
+  TwoFactorCode,
+} from "./authApi";
 
 // Types
-interface User {
+export interface User {
   _id: string;
   email: string;
   name: string;
   skillLevel?: string;
   preferredLanguages?: string[];
+  roles?: Role[];
+  // Granted on top of what the user's roles already allow
+  permissions?: Permission[];
+  twoFactorEnabled?: boolean;
+  // New accounts can sign in straight away, but some pages need this first.
+  // Backends that don't track verification leave it out, so only an explicit
+  // false counts as unverified.
+  emailVerified?: boolean;
+}
+
+export type RequestStatus = "idle" | "loading" | "succeeded" | "failed";
+
+// Status and error of one kind of request, so that e.g. a background session
+// check never shows up as a pending login
+export interface RequestState {
+  status: RequestStatus;
+  error: ApiError | null;
 }
 
-interface AuthState {
+// A password login that still needs a second factor before it counts
+export interface TwoFactorChallenge {
+  email: string;
+  challengeId: string | null;
+  // Carried over from the password step to the session it creates
+  rememberMe: boolean;
+}
+
+export interface AuthState {
   user: User | null;
   isAuthenticated: boolean;
-  status: "idle" | "loading" | "succeeded" | "failed";
-  error: string | null;
+  // The /auth/me check; decides whether we know who is signed in
+  sessionCheck: RequestState;
+  login: RequestState;
+  register: RequestState;
+  logout: RequestState;
+  // Set when a request found the session gone; shown as a notice on login
+  sessionExpired: boolean;
+  twoFactorChallenge: TwoFactorChallenge | null;
+  twoFactorVerify: RequestState;
+  emailVerify: RequestState;
+  verificationResend: RequestState;
+  magicLinkRequest: RequestState;
+  // Where the last sign-in link went, for the "check your email" notice
+  magicLinkSentTo: string | null;
+  magicLinkVerify: RequestState;
+  passwordResetRequest: RequestState;
+  passwordReset: RequestState;
+  passwordChange: RequestState;
+  profileFetch: RequestState;
+  profileUpdate: RequestState;
+  // The user from before the optimistic profile updates in flight, put back
+  // if one of them fails
+  profileRollback: User | null;
 }
 
-const initialState: AuthState = {
+const idleRequest: RequestState = { status: "idle", error: null };
+
+export const initialState: AuthState = {
   user: null,
   isAuthenticated: false,
-  status: "idle",
-  error: null,
+  sessionCheck: idleRequest,
+  login: idleRequest,
+  register: idleRequest,
+  logout: idleRequest,
+  sessionExpired: false,
+  twoFactorChallenge: null,
+  twoFactorVerify: idleRequest,
+  emailVerify: idleRequest,
+  verificationResend: idleRequest,
+  magicLinkRequest: idleRequest,
+  magicLinkSentTo: null,
+  magicLinkVerify: idleRequest,
+  passwordResetRequest: idleRequest,
+  passwordReset: idleRequest,
+  passwordChange: idleRequest,
+  profileFetch: idleRequest,
+  profileUpdate: idleRequest,
+  profileRollback: null,
 };
 
-// Optimized auth check thunk with debouncing mechanism
-// eslint-disable-next-line @typescript-eslint/no-explicit-any
-let authCheckPromise: Promise<any> | null = null;
-
-export const checkAuthStatus = createAsyncThunk(
+// Force a fresh /auth/me. Concurrent checks share one request through
+// RTK Query, and the slice picks up the result from the getMe matchers.
+export const checkAuthStatus = createAppAsyncThunk(
   "auth/checkStatus",
-  async (_, { rejectWithValue }) => {
+  async (_, { dispatch, rejectWithValue }) => {
+    console.log("Checking auth status...");
     try {
-      // Return existing promise if one is in progress to prevent multiple simultaneous calls
-      if (authCheckPromise) {
-        return await authCheckPromise;
-      }
-
-      console.log("Checking auth status...");
-
-      // Create new promise and store it
-      authCheckPromise = axios.get(`${API_BASE_URL}/auth/me`);
-      const response = await authCheckPromise;
-
-      console.log("Auth check response data:", response.data);
-
-      // Reset promise after completion
-      authCheckPromise = null;
-
-      return response.data;
-    } catch (error: any) {
-      console.error("Auth check error:", error.response?.data || error.message);
-      authCheckPromise = null;
-      return rejectWithValue(
-        error.response?.data || { message: error.message }
-      );
+      const session = await dispatch(
+        authApi.endpoints.getMe.initiate(undefined, {
+          forceRefetch: true,
+          subscribe: false,
+        })
+      ).unwrap();
+      console.log("Auth check response data:", session);
+      return session;
+    } catch (error) {
+      const apiError = toApiError(error);
+      console.error("Auth check error:", apiError);
+      return rejectWithValue(apiError);
     }
   }
 );
 
-export const loginUser = createAsyncThunk(
+export const loginUser = createAppAsyncThunk(
   "auth/login",
+  async (credentials: LoginCredentials, { dispatch, rejectWithValue }) => {
+    try {
+      const response = await dispatch(
+        authApi.endpoints.login.initiate(credentials)
+      ).unwrap();
+      console.log("Login response:", response);
+      return response;
+    } catch (error) {
+      const apiError = toApiError(error);
+      console.error("Login error:", apiError);
+      return rejectWithValue(apiError);
+    }
+  }
+);
+
+// Second step of a login that came back with twoFactorRequired
+export const verifyTwoFactor = createAppAsyncThunk(
+  "auth/verifyTwoFactor",
   async (
-    credentials: { email: string; password: string },
-    { rejectWithValue }
+    verification: TwoFactorCode,
+    { dispatch, getState, rejectWithValue }
   ) => {
+    const challenge = (getState() as { auth: AuthState }).auth
+      .twoFactorChallenge;
     try {
-      const response = await axios.post(
-        `${API_BASE_URL}/auth/login`,
-        credentials
-      );
-      console.log("Login response:", response.data);
-      return response.data;
-    } catch (error: any) {
-      console.error("Login error:", error.response?.data || error.message);
-      return rejectWithValue(
-        error.response?.data || { message: error.message }
-      );
+      return await dispatch(
+        authApi.endpoints.verifyTwoFactor.initiate({
+          ...verification,
+          challengeId: challenge?.challengeId || undefined,
+          rememberMe: challenge?.rememberMe,
+        })
+      ).unwrap();
+    } catch (error) {
+      const apiError = toApiError(error);
+      console.error("Two-factor verification error:", apiError);
+      return rejectWithValue(apiError);
     }
   }
 );
 
-export const registerUser = createAsyncThunk(
+export const registerUser = createAppAsyncThunk(
   "auth/register",
-  async (userData: { email: string; password: string; name: string }) => {
-    const response = await axios.post(
-      `${API_BASE_URL}/auth/register`,
-      userData
-    );
-    return response.data;
+  async (
+    userData: { email: string; password: string; name: string },
+    { dispatch, rejectWithValue }
+  ) => {
+    try {
+      return await dispatch(
+        authApi.endpoints.register.initiate(userData)
+      ).unwrap();
+    } catch (error) {
+      const apiError = toApiError(error);
+      console.error("Register error:", apiError);
+      return rejectWithValue(apiError);
+    }
   }
 );
 
 // Updated logout thunk with better error handling
-export const logoutUser = createAsyncThunk(
+export const logoutUser = createAppAsyncThunk(
   "auth/logout",
-  async (_, { rejectWithValue }) => {
+  async (_, { dispatch }) => {
     try {
       console.log("Logging out user...");
-      const response = await axios.get(`${API_BASE_URL}/auth/logoutExtension`);
-      console.log("Logout response:", response);
+      await dispatch(authApi.endpoints.logout.initiate()).unwrap();
 
       // Clear any auth related data in localStorage
       localStorage.removeItem("auth_last_checked");
 
       return null;
-    } catch (error: any) {
-      console.error("Logout error:", error.response?.data || error.message);
+    } catch (error) {
+      console.error("Logout error:", toApiError(error));
       // Even if the server request fails, we should clear the local auth state
       return null;
     }
   }
 );
 
+export const verifyEmail = createAppAsyncThunk(
+  "auth/verifyEmail",
+  async (token: string, { dispatch, rejectWithValue }) => {
+    try {
+      return await dispatch(
+        authApi.endpoints.verifyEmail.initiate({ token })
+      ).unwrap();
+    } catch (error) {
+      const apiError = toApiError(error);
+      console.error("Email verification error:", apiError);
+      return rejectWithValue(apiError);
+    }
+  }
+);
+
+export const resendVerificationEmail = createAppAsyncThunk(
+  "auth/resendVerificationEmail",
+  async (email: string, { dispatch, rejectWithValue }) => {
+    try {
+      return await dispatch(
+        authApi.endpoints.resendVerificationEmail.initiate({ email })
+      ).unwrap();
+    } catch (error) {
+      const apiError = toApiError(error);
+      console.error("Resend verification error:", apiError);
+      return rejectWithValue(apiError);
+    }
+  }
+);
+
+// Emails a one-time sign-in link. `next` is carried in the link so it opens
+// on the page the user was after.
+export const requestMagicLink = createAppAsyncThunk(
+  "auth/requestMagicLink",
+  async (
+    request: { email: string; next?: string },
+    { dispatch, rejectWithValue }
+  ) => {
+    try {
+      return await dispatch(
+        authApi.endpoints.requestMagicLink.initiate(request)
+      ).unwrap();
+    } catch (error) {
+      const apiError = toApiError(error);
+      console.error("Magic link request error:", apiError);
+      return rejectWithValue(apiError);
+    }
+  }
+);
+
+// Exchanges the token from a sign-in link for a session, then loads the user
+// through checkAuthStatus like any other session check
+export const verifyMagicLink = createAppAsyncThunk(
+  "auth/verifyMagicLink",
+  async (token: string, { dispatch, rejectWithValue }) => {
+    try {
+      await dispatch(
+        authApi.endpoints.verifyMagicLink.initiate({ token })
+      ).unwrap();
+      const session = await dispatch(checkAuthStatus()).unwrap();
+      if (!session.authenticated || !session.user) {
+        return rejectWithValue({
+          kind: "server",
+          status: 0,
+          message: "Sign-in didn't complete. Please request a new link.",
+        });
+      }
+      return session;
+    } catch (error) {
+      const apiError = toApiError(error);
+      console.error("Magic link sign-in error:", apiError);
+      return rejectWithValue(apiError);
+    }
+  }
+);
+
+export const requestPasswordReset = createAppAsyncThunk(
+  "auth/requestPasswordReset",
+  async (email: string, { rejectWithValue }) => {
+    try {
+      const response = await apiClient.post("/auth/forgot-password", {
+        email,
+      });
+      return response.data;
+    } catch (error) {
+      const apiError = toApiError(error);
+      console.error("Password reset request error:", apiError);
+      return rejectWithValue(apiError);
+    }
+  }
+);
+
+export const resetPassword = createAppAsyncThunk(
+  "auth/resetPassword",
+  async (
+    data: { resetToken: string; newPassword: string },
+    { rejectWithValue }
+  ) => {
+    try {
+      const response = await apiClient.post("/auth/reset-password", data);
+      return response.data;
+    } catch (error) {
+      const apiError = toApiError(error);
+      console.error("Password reset error:", apiError);
+      return rejectWithValue(apiError);
+    }
+  }
+);
+
+export const changePassword = createAppAsyncThunk(
+  "auth/changePassword",
+  async (
+    data: { oldPassword: string; newPassword: string },
+    { rejectWithValue }
+  ) => {
+    try {
+      const response = await apiClient.put("/auth/change-password", data);
+      return response.data;
+    } catch (error) {
+      const apiError = toApiError(error);
+      console.error("Change password error:", apiError);
+      return rejectWithValue(apiError);
+    }
+  }
+);
+
+export const fetchProfile = createAppAsyncThunk(
+  "auth/fetchProfile",
+  async (_, { dispatch, rejectWithValue }) => {
+    try {
+      return await dispatch(
+        authApi.endpoints.getProfile.initiate(undefined, {
+          forceRefetch: true,
+          subscribe: false,
+        })
+      ).unwrap();
+    } catch (error) {
+      const apiError = toApiError(error);
+      console.error("Fetch profile error:", apiError);
+      return rejectWithValue(apiError);
+    }
+  }
+);
+
+// Profile updates are applied optimistically: the pending reducer keeps the
+// user it started from and the rejected reducer puts it back.
+export const updateProfile = createAppAsyncThunk(
+  "auth/updateProfile",
+  async (
+    profileData: Partial<Pick<User, "name" | "skillLevel">>,
+    { dispatch, rejectWithValue }
+  ) => {
+    try {
+      return await dispatch(
+        authApi.endpoints.updateProfile.initiate(profileData)
+      ).unwrap();
+    } catch (error) {
+      const apiError = toApiError(error);
+      console.error("Update profile error:", apiError);
+      return rejectWithValue(apiError);
+    }
+  }
+);
+
+export const updatePreferredLanguages = createAppAsyncThunk(
+  "auth/updatePreferredLanguages",
+  async (languages: string[], { dispatch, rejectWithValue }) => {
+    try {
+      return await dispatch(
+        authApi.endpoints.updatePreferredLanguages.initiate(languages)
+      ).unwrap();
+    } catch (error) {
+      const apiError = toApiError(error);
+      console.error("Update languages error:", apiError);
+      return rejectWithValue(apiError);
+    }
+  }
+);
+
+// This browser's session was revoked from the active sessions page
+export const isCurrentSessionRevoked = (action: UnknownAction) =>
+  authApi.endpoints.revokeSession.matchFulfilled(action) &&
+  action.meta.arg.originalArgs.current;
+
 // Auth slice
 const authSlice = createSlice({
   name: "auth",
   initialState,
   reducers: {
-    clearError: (state) => {
-      state.error = null;
+    // Drop errors left over from another page, e.g. a failed registration
+    // that shouldn't show up on the login form. sessionCheck is left alone:
+    // its error says we don't know who is signed in, wherever the user goes.
+    clearRequestErrors: (state) => {
+      for (const request of [
+        state.login,
+        state.register,
+        state.logout,
+        state.twoFactorVerify,
+        state.emailVerify,
+        state.verificationResend,
+        state.magicLinkRequest,
+        state.magicLinkVerify,
+        state.passwordResetRequest,
+        state.passwordReset,
+        state.passwordChange,
+        state.profileFetch,
+        state.profileUpdate,
+      ]) {
+        if (request.status === "failed") {
+          request.status = "idle";
+          request.error = null;
+        }
+      }
+    },
+    // Reset the forgot/reset password requests when leaving those pages
+    clearPasswordResetState: (state) => {
+      state.passwordResetRequest = idleRequest;
+      state.passwordReset = idleRequest;
+    },
+    // Abandon a login that is waiting for a second factor
+    clearTwoFactorChallenge: (state) => {
+      state.twoFactorChallenge = null;
+      state.twoFactorVerify = idleRequest;
+    },
+    clearEmailVerificationState: (state) => {
+      state.emailVerify = idleRequest;
+      state.verificationResend = idleRequest;
+    },
+    clearMagicLinkState: (state) => {
+      state.magicLinkRequest = idleRequest;
+      state.magicLinkSentTo = null;
+      state.magicLinkVerify = idleRequest;
+    },
+    clearPasswordChangeState: (state) => {
+      state.passwordChange = idleRequest;
+    },
+    clearProfileUpdateState: (state) => {
+      state.profileUpdate = idleRequest;
     },
     // Add method to manually set authentication state (useful for debugging)
     setAuthenticated: (state, action) => {
@@ -135,62 +451,266 @@ const authSlice = createSlice({
         state.user = null;
       }
     },
+    // The backend rejected a request because the session ran out
+    expireSession: (state) => {
+      state.isAuthenticated = false;
+      state.user = null;
+      state.sessionCheck = { status: "succeeded", error: null };
+      state.sessionExpired = true;
+    },
+    // Another tab logged out or found the session expired
+    sessionEndedInOtherTab: (
+      state,
+      action: PayloadAction<"logout" | "session-expired">
+    ) => {
+      state.isAuthenticated = false;
+      state.user = null;
+      state.sessionCheck = { status: "succeeded", error: null };
+      state.sessionExpired = action.payload === "session-expired";
+    },
     // Manual logout for cases where the API fails
     manualLogout: (state) => {
       state.isAuthenticated = false;
       state.user = null;
-      state.status = "idle";
+      state.logout = idleRequest;
     },
   },
   extraReducers: (builder) => {
     builder
-      // Check auth status cases
-      .addCase(checkAuthStatus.pending, (state) => {
-        state.status = "loading";
-      })
-      .addCase(checkAuthStatus.fulfilled, (state, action) => {
-        state.status = "succeeded";
-        state.isAuthenticated =
-          action.payload.authenticated || !!action.payload.user;
-        state.user = action.payload.user || null;
-      })
-      .addCase(checkAuthStatus.rejected, (state, action) => {
-        state.status = "failed";
-        state.error = action.payload
-          ? (action.payload as any).message
-          : "Authentication check failed";
-        state.isAuthenticated = false;
-        state.user = null;
-      })
-
       // Login cases with improved handling
       .addCase(loginUser.pending, (state) => {
-        state.status = "loading";
-        state.error = null; // Clear previous errors when starting a new login attempt
+        state.login = { status: "loading", error: null };
       })
       .addCase(loginUser.fulfilled, (state, action) => {
-        state.status = "succeeded";
+        state.login = { status: "succeeded", error: null };
+        if (isTwoFactorChallenge(action.payload)) {
+          // The password was right, but there is no session until the
+          // second factor is verified
+          state.isAuthenticated = false;
+          state.user = null;
+          state.twoFactorChallenge = {
+            email: action.meta.arg.email,
+            challengeId: action.payload.challengeId || null,
+            rememberMe: !!action.meta.arg.rememberMe,
+          };
+          state.twoFactorVerify = idleRequest;
+          return;
+        }
         state.isAuthenticated = true;
         state.user = action.payload.user;
-        state.error = null;
+        state.sessionExpired = false;
+        state.twoFactorChallenge = null;
       })
       .addCase(loginUser.rejected, (state, action) => {
-        state.status = "failed";
-        state.error = action.error.message || "Login failed";
+        state.login = {
+          status: "failed",
+          error: rejectedApiError(action.payload, "Login failed"),
+        };
+      })
+
+      // Two-factor cases
+      .addCase(verifyTwoFactor.pending, (state) => {
+        state.twoFactorVerify = { status: "loading", error: null };
+      })
+      .addCase(verifyTwoFactor.fulfilled, (state, action) => {
+        state.twoFactorVerify = { status: "succeeded", error: null };
+        state.twoFactorChallenge = null;
+        state.isAuthenticated = true;
+        state.user = action.payload.user;
+        state.sessionExpired = false;
+      })
+      .addCase(verifyTwoFactor.rejected, (state, action) => {
+        state.twoFactorVerify = {
+          status: "failed",
+          error: rejectedApiError(action.payload, "Verification failed"),
+        };
       })
 
       // Register cases
       .addCase(registerUser.pending, (state) => {
-        state.status = "loading";
+        state.register = { status: "loading", error: null };
       })
       .addCase(registerUser.fulfilled, (state, action) => {
-        state.status = "succeeded";
+        state.register = { status: "succeeded", error: null };
         state.isAuthenticated = true;
         state.user = action.payload.user;
       })
       .addCase(registerUser.rejected, (state, action) => {
-        state.status = "failed";
-        state.error = action.error.message || "Registration failed";
+        state.register = {
+          status: "failed",
+          error: rejectedApiError(action.payload, "Registration failed"),
+        };
+      })
+
+      // Email verification cases
+      .addCase(verifyEmail.pending, (state) => {
+        state.emailVerify = { status: "loading", error: null };
+      })
+      .addCase(verifyEmail.fulfilled, (state) => {
+        state.emailVerify = { status: "succeeded", error: null };
+        if (state.user) {
+          state.user.emailVerified = true;
+        }
+      })
+      .addCase(verifyEmail.rejected, (state, action) => {
+        state.emailVerify = {
+          status: "failed",
+          error: rejectedApiError(action.payload, "Email verification failed"),
+        };
+      })
+      .addCase(resendVerificationEmail.pending, (state) => {
+        state.verificationResend = { status: "loading", error: null };
+      })
+      .addCase(resendVerificationEmail.fulfilled, (state) => {
+        state.verificationResend = { status: "succeeded", error: null };
+      })
+      .addCase(resendVerificationEmail.rejected, (state, action) => {
+        state.verificationResend = {
+          status: "failed",
+          error: rejectedApiError(
+            action.payload,
+            "Could not resend the verification email"
+          ),
+        };
+      })
+
+      // Magic link cases
+      .addCase(requestMagicLink.pending, (state) => {
+        state.magicLinkRequest = { status: "loading", error: null };
+      })
+      .addCase(requestMagicLink.fulfilled, (state, action) => {
+        state.magicLinkRequest = { status: "succeeded", error: null };
+        state.magicLinkSentTo = action.meta.arg.email;
+      })
+      .addCase(requestMagicLink.rejected, (state, action) => {
+        state.magicLinkRequest = {
+          status: "failed",
+          error: rejectedApiError(
+            action.payload,
+            "Could not send the sign-in link"
+          ),
+        };
+      })
+      // The user itself comes in through the getMe matchers
+      .addCase(verifyMagicLink.pending, (state) => {
+        state.magicLinkVerify = { status: "loading", error: null };
+      })
+      .addCase(verifyMagicLink.fulfilled, (state) => {
+        state.magicLinkVerify = { status: "succeeded", error: null };
+        state.magicLinkSentTo = null;
+        state.sessionExpired = false;
+      })
+      .addCase(verifyMagicLink.rejected, (state, action) => {
+        state.magicLinkVerify = {
+          status: "failed",
+          error: rejectedApiError(action.payload, "Sign-in link failed"),
+        };
+      })
+
+      // Password reset cases
+      .addCase(requestPasswordReset.pending, (state) => {
+        state.passwordResetRequest = { status: "loading", error: null };
+      })
+      .addCase(requestPasswordReset.fulfilled, (state) => {
+        state.passwordResetRequest = { status: "succeeded", error: null };
+      })
+      .addCase(requestPasswordReset.rejected, (state, action) => {
+        state.passwordResetRequest = {
+          status: "failed",
+          error: rejectedApiError(
+            action.payload,
+            "Could not send the reset email"
+          ),
+        };
+      })
+      .addCase(resetPassword.pending, (state) => {
+        state.passwordReset = { status: "loading", error: null };
+      })
+      .addCase(resetPassword.fulfilled, (state) => {
+        state.passwordReset = { status: "succeeded", error: null };
+      })
+      .addCase(resetPassword.rejected, (state, action) => {
+        state.passwordReset = {
+          status: "failed",
+          error: rejectedApiError(action.payload, "Password reset failed"),
+        };
+      })
+
+      // Change password cases
+      .addCase(changePassword.pending, (state) => {
+        state.passwordChange = { status: "loading", error: null };
+      })
+      .addCase(changePassword.fulfilled, (state) => {
+        state.passwordChange = { status: "succeeded", error: null };
+      })
+      .addCase(changePassword.rejected, (state, action) => {
+        state.passwordChange = {
+          status: "failed",
+          error: rejectedApiError(action.payload, "Password change failed"),
+        };
+      })
+
+      // Profile cases
+      .addCase(fetchProfile.pending, (state) => {
+        state.profileFetch = { status: "loading", error: null };
+      })
+      .addCase(fetchProfile.fulfilled, (state, action) => {
+        state.profileFetch = { status: "succeeded", error: null };
+        state.user = { ...state.user, ...action.payload };
+      })
+      .addCase(fetchProfile.rejected, (state, action) => {
+        state.profileFetch = {
+          status: "failed",
+          error: rejectedApiError(action.payload, "Could not load profile"),
+        };
+      })
+      .addCase(updateProfile.pending, (state, action) => {
+        state.profileUpdate = { status: "loading", error: null };
+        if (state.user) {
+          state.profileRollback ??= current(state.user);
+          state.user = { ...state.user, ...action.meta.arg };
+        }
+      })
+      .addCase(updateProfile.fulfilled, (state, action) => {
+        state.profileUpdate = { status: "succeeded", error: null };
+        state.profileRollback = null;
+        state.user = { ...state.user, ...action.payload };
+      })
+      .addCase(updateProfile.rejected, (state, action) => {
+        state.profileUpdate = {
+          status: "failed",
+          error: rejectedApiError(action.payload, "Profile update failed"),
+        };
+        // Not if someone else signed in (or nobody is) by now
+        if (state.user?._id === state.profileRollback?._id) {
+          state.user = state.profileRollback;
+        }
+        state.profileRollback = null;
+      })
+      .addCase(updatePreferredLanguages.pending, (state, action) => {
+        state.profileUpdate = { status: "loading", error: null };
+        if (state.user) {
+          state.profileRollback ??= current(state.user);
+          state.user = { ...state.user, preferredLanguages: action.meta.arg };
+        }
+      })
+      .addCase(updatePreferredLanguages.fulfilled, (state, action) => {
+        state.profileUpdate = { status: "succeeded", error: null };
+        state.profileRollback = null;
+        if (state.user) {
+          state.user.preferredLanguages = action.payload;
+        }
+      })
+      .addCase(updatePreferredLanguages.rejected, (state, action) => {
+        state.profileUpdate = {
+          status: "failed",
+          error: rejectedApiError(action.payload, "Language update failed"),
+        };
+        // Not if someone else signed in (or nobody is) by now
+        if (state.user?._id === state.profileRollback?._id) {
+          state.user = state.profileRollback;
+        }
+        state.profileRollback = null;
       })
 
       // Updated logout cases with immediate state clearing
@@ -198,22 +718,96 @@ const authSlice = createSlice({
         // Immediately clear auth state on logout attempt
         state.isAuthenticated = false;
         state.user = null;
-        state.status = "loading";
+        state.logout = { status: "loading", error: null };
       })
       .addCase(logoutUser.fulfilled, (state) => {
         state.isAuthenticated = false;
         state.user = null;
-        state.status = "idle";
-        state.error = null;
+        state.logout = { status: "succeeded", error: null };
+        state.login = idleRequest;
+        state.sessionExpired = false;
+        state.twoFactorChallenge = null;
       })
       .addCase(logoutUser.rejected, (state) => {
         // Even if the server request fails, clear the auth state on the client
         state.isAuthenticated = false;
         state.user = null;
-        state.status = "idle";
+        state.logout = idleRequest;
+      })
+
+      .addMatcher(isCurrentSessionRevoked, (state) => {
+        state.isAuthenticated = false;
+        state.user = null;
+        state.sessionExpired = false;
+      })
+
+      // Session check cases, fed by every /auth/me request RTK Query makes.
+      // Only the first check shows as "loading"; later ones revalidate in
+      // the background.
+      .addMatcher(authApi.endpoints.getMe.matchPending, (state) => {
+        if (state.sessionCheck.status === "idle") {
+          state.sessionCheck = { status: "loading", error: null };
+        }
+      })
+      .addMatcher(authApi.endpoints.getMe.matchFulfilled, (state, action) => {
+        state.sessionCheck = { status: "succeeded", error: null };
+        state.isAuthenticated =
+          action.payload.authenticated || !!action.payload.user;
+        state.user = action.payload.user || null;
+        if (state.isAuthenticated) {
+          state.sessionExpired = false;
+        }
+      })
+      .addMatcher(authApi.endpoints.getMe.matchRejected, (state, action) => {
+        // Skipped because an identical request is already in flight
+        if (action.meta.condition) {
+          return;
+        }
+        state.sessionCheck = {
+          status: "failed",
+          error: rejectedApiError(
+            action.payload,
+            "Authentication check failed"
+          ),
+        };
+        state.isAuthenticated = false;
+        state.user = null;
       });
   },
 });
 
-export const { clearError, setAuthenticated, manualLogout } = authSlice.actions;
+export const {
+  clearRequestErrors,
+  clearPasswordResetState,
+  clearTwoFactorChallenge,
+  clearEmailVerificationState,
+  clearMagicLinkState,
+  clearPasswordChangeState,
+  clearProfileUpdateState,
+  setAuthenticated,
+  expireSession,
+  sessionEndedInOtherTab,
+  manualLogout,
+} = authSlice.actions;
 export default authSlice.reducer;
+
+// Selectors
+type AuthRootState = { auth: AuthState };
+
+export const selectCurrentUser = (state: AuthRootState) => state.auth.user;
+export const selectIsAuthenticated = (state: AuthRootState) =>
+  state.auth.isAuthenticated;
+export const selectSessionCheckStatus = (state: AuthRootState) =>
+  state.auth.sessionCheck.status;
+export const selectSessionCheckError = (state: AuthRootState) =>
+  state.auth.sessionCheck.error;
+export const selectLoginStatus = (state: AuthRootState) =>
+  state.auth.login.status;
+export const selectLoginError = (state: AuthRootState) =>
+  state.auth.login.error;
+export const selectRegisterStatus = (state: AuthRootState) =>
+  state.auth.register.status;
+export const selectRegisterError = (state: AuthRootState) =>
+  state.auth.register.error;
+export const selectLogoutStatus = (state: AuthRootState) =>
+  state.auth.logout.status;
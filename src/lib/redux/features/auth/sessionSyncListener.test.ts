@@ -0,0 +1,71 @@
+import { AxiosResponse } from "axios";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { apiClient } from "@/lib/api/client";
+import { AppStore, makeStore } from "@/lib/redux/store";
+import { authApi } from "./authApi";
+import {
+  expireSession,
+  initialState,
+  logoutUser,
+  sessionEndedInOtherTab,
+} from "./authSlice";
+
+const sessions = [{ id: "session-1", current: true, ip: "203.0.113.7" }];
+
+async function createStoreWithSessions() {
+  apiClient.defaults.adapter = async (config) => {
+    const response: AxiosResponse = {
+      data: config.url === "/auth/sessions" ? sessions : { csrfToken: "t" },
+      status: 200,
+      statusText: "",
+      headers: {},
+      config,
+    };
+    return response;
+  };
+  const store = makeStore({
+    auth: {
+      ...initialState,
+      user: { _id: "user-1", email: "demo@example.com", name: "Demo" },
+      isAuthenticated: true,
+    },
+  });
+  await store.dispatch(authApi.endpoints.getSessions.initiate());
+  return store;
+}
+
+function cachedSessions(store: AppStore) {
+  return authApi.endpoints.getSessions.select()(store.getState()).data;
+}
+
+beforeEach(() => {
+  vi.spyOn(console, "log").mockImplementation(() => {});
+  // Logging out tidies up localStorage
+  vi.stubGlobal("localStorage", { removeItem: () => {} });
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+  vi.unstubAllGlobals();
+  delete apiClient.defaults.adapter;
+});
+
+describe("cached API responses when the session ends", () => {
+  it("keeps the device list while signed in", async () => {
+    const store = await createStoreWithSessions();
+
+    expect(cachedSessions(store)).toEqual(sessions);
+  });
+
+  it.each([
+    ["logging out", logoutUser()],
+    ["the session expiring", expireSession()],
+    ["a logout in another tab", sessionEndedInOtherTab("logout")],
+  ] as const)("drops the device list after %s", async (_, action) => {
+    const store = await createStoreWithSessions();
+
+    await store.dispatch(action);
+
+    expect(cachedSessions(store)).toBeUndefined();
+  });
+});
@@ -0,0 +1,67 @@
+import { createListenerMiddleware, isAnyOf } from "@reduxjs/toolkit";
+import { publishSessionEvent } from "@/lib/auth/sessionChannel";
+import { authApi, isTwoFactorChallenge } from "./authApi";
+import {
+  expireSession,
+  isCurrentSessionRevoked,
+  loginUser,
+  logoutUser,
+  registerUser,
+  sessionEndedInOtherTab,
+  verifyMagicLink,
+  verifyTwoFactor,
+} from "./authSlice";
+
+// Tell other tabs whenever this tab's session starts or ends. Changes that
+// arrive from another tab go through sessionEndedInOtherTab and
+// checkAuthStatus instead, so they are never echoed back.
+export const sessionSyncListener = createListenerMiddleware();
+
+sessionSyncListener.startListening({
+  actionCreator: loginUser.fulfilled,
+  effect: (action) => {
+    // Still waiting on the second factor, so nobody is signed in yet
+    if (!isTwoFactorChallenge(action.payload)) {
+      publishSessionEvent({ type: "login" });
+    }
+  },
+});
+
+sessionSyncListener.startListening({
+  actionCreator: verifyTwoFactor.fulfilled,
+  effect: () => publishSessionEvent({ type: "login" }),
+});
+
+sessionSyncListener.startListening({
+  actionCreator: verifyMagicLink.fulfilled,
+  effect: () => publishSessionEvent({ type: "login" }),
+});
+
+sessionSyncListener.startListening({
+  actionCreator: registerUser.fulfilled,
+  effect: () => publishSessionEvent({ type: "login" }),
+});
+
+sessionSyncListener.startListening({
+  actionCreator: logoutUser.pending,
+  effect: () => publishSessionEvent({ type: "logout" }),
+});
+
+sessionSyncListener.startListening({
+  predicate: isCurrentSessionRevoked,
+  effect: () => publishSessionEvent({ type: "logout" }),
+});
+
+sessionSyncListener.startListening({
+  actionCreator: expireSession,
+  effect: () => publishSessionEvent({ type: "session-expired" }),
+});
+
+// Whoever signs in next in this tab must not see the previous user's cached
+// responses, such as their devices and IP addresses
+sessionSyncListener.startListening({
+  matcher: isAnyOf(logoutUser.fulfilled, expireSession, sessionEndedInOtherTab),
+  effect: (_action, listenerApi) => {
+    listenerApi.dispatch(authApi.util.resetApiState());
+  },
+});
@@ -0,0 +1,68 @@
+import { AxiosResponse } from "axios";
+import { afterEach, describe, expect, it } from "vitest";
+import { apiClient } from "@/lib/api/client";
+import { makeStore } from "@/lib/redux/store";
+import { fetchAllProgress } from "./progressSlice";
+
+async function fetchProgress(data: unknown) {
+  apiClient.defaults.adapter = async (config) => {
+    const response: AxiosResponse = {
+      data,
+      status: 200,
+      statusText: "",
+      headers: {},
+      config,
+    };
+    return response;
+  };
+  const store = makeStore();
+  await store.dispatch(fetchAllProgress());
+  return store.getState().progress;
+}
+
+afterEach(() => {
+  delete apiClient.defaults.adapter;
+});
+
+describe("progress responses", () => {
+  it("keeps only the fields that have the expected type", async () => {
+    const progress = await fetchProgress([
+      {
+        courseId: "rust",
+        courseTitle: 42,
+        completedLessons: ["intro", 3, null, "ownership"],
+        totalLessons: "ten",
+        percentComplete: 50,
+        updatedAt: 1700000000000,
+      },
+    ]);
+
+    expect(progress.entities.rust).toEqual({
+      courseId: "rust",
+      completedLessons: ["intro", "ownership"],
+      percentComplete: 50,
+    });
+  });
+
+  it("drops entries without a course id", async () => {
+    const progress = await fetchProgress([
+      { courseId: "go", updatedAt: "2024-01-01T00:00:00.000Z" },
+      { courseId: "", completedLessons: [] },
+      { courseId: 7, completedLessons: [] },
+      { completedLessons: ["intro"] },
+      "rust",
+    ]);
+
+    expect(progress.ids).toEqual(["go"]);
+  });
+
+  it("sorts courses keyed by id, most recent first", async () => {
+    const progress = await fetchProgress({
+      go: { updatedAt: "2024-01-01T00:00:00.000Z" },
+      rust: { updatedAt: "2024-02-01T00:00:00.000Z" },
+      python: { updatedAt: { date: "2024-03-01" } },
+    });
+
+    expect(progress.ids).toEqual(["rust", "go", "python"]);
+  });
+});
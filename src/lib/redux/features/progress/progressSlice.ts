@@ -0,0 +1,277 @@
+import { createEntityAdapter, createSlice } from "@reduxjs/toolkit";
+import { apiClient } from "@/lib/api/client";
+import { rejectedApiError, toApiError } from "@/lib/api/errors";
+import { createAppAsyncThunk } from "../../createAppAsyncThunk";
+import {
+  expireSession,
+  isCurrentSessionRevoked,
+  logoutUser,
+  manualLogout,
+  RequestState,
+  sessionEndedInOtherTab,
+} from "../auth/authSlice";
+
+// Types
+export interface CourseProgress {
+  courseId: string;
+  courseTitle?: string;
+  completedLessons: string[];
+  totalLessons?: number;
+  lastLessonId?: string;
+  lastLessonTitle?: string;
+  percentComplete?: number;
+  updatedAt?: string;
+}
+
+const progressAdapter = createEntityAdapter({
+  selectId: (progress: CourseProgress) => progress.courseId,
+  // Most recently touched course first
+  sortComparer: (a, b) => (b.updatedAt || "").localeCompare(a.updatedAt || ""),
+});
+
+const idleRequest: RequestState = { status: "idle", error: null };
+
+const initialState = progressAdapter.getInitialState({
+  // Status of the "fetch everything" request
+  listRequest: idleRequest,
+  // Per-course fetch/update status, keyed by courseId
+  courseRequests: {} as Record<string, RequestState>,
+});
+
+export type ProgressState = typeof initialState;
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+// Progress may come wrapped as { progress: ... }
+function unwrapProgress(data: unknown) {
+  return isRecord(data) && "progress" in data ? data.progress : data;
+}
+
+const STRING_FIELDS = [
+  "courseTitle",
+  "lastLessonId",
+  "lastLessonTitle",
+  "updatedAt",
+] as const;
+const NUMBER_FIELDS = ["totalLessons", "percentComplete"] as const;
+
+// Keeps only the fields that have the expected type, so a malformed response
+// can't put e.g. a numeric updatedAt in the store and break sorting. Fields
+// that are missing stay missing, so upserting doesn't wipe stored values.
+function toCourseProgress(courseId: string, data: unknown): CourseProgress {
+  const entry = isRecord(data) ? data : {};
+  const progress: CourseProgress = {
+    courseId,
+    completedLessons: Array.isArray(entry.completedLessons)
+      ? entry.completedLessons.filter(
+          (lessonId): lessonId is string => typeof lessonId === "string"
+        )
+      : [],
+  };
+  for (const field of STRING_FIELDS) {
+    const value = entry[field];
+    if (typeof value === "string") {
+      progress[field] = value;
+    }
+  }
+  for (const field of NUMBER_FIELDS) {
+    const value = entry[field];
+    if (typeof value === "number" && Number.isFinite(value)) {
+      progress[field] = value;
+    }
+  }
+  return progress;
+}
+
+// The backend returns either an array of course progress or an object keyed
+// by courseId; normalize both into CourseProgress records. Array entries
+// without a courseId can't be stored and are dropped.
+function toCourseProgressList(data: unknown): CourseProgress[] {
+  const source = unwrapProgress(data);
+  if (Array.isArray(source)) {
+    return source.flatMap((entry) =>
+      isRecord(entry) && typeof entry.courseId === "string" && entry.courseId
+        ? [toCourseProgress(entry.courseId, entry)]
+        : []
+    );
+  }
+  return Object.entries(isRecord(source) ? source : {}).map(
+    ([courseId, entry]) => toCourseProgress(courseId, entry)
+  );
+}
+
+// Picks one course out of a response that may hold every course's progress
+// (as a list or keyed by courseId) or just that course
+function findCourseEntry(courseId: string, data: unknown) {
+  const source = unwrapProgress(data);
+  if (Array.isArray(source)) {
+    const entry = source.find(
+      (candidate) => isRecord(candidate) && candidate.courseId === courseId
+    );
+    return isRecord(entry) ? entry : {};
+  }
+  if (!isRecord(source)) {
+    return {};
+  }
+  const keyed = source[courseId];
+  return isRecord(keyed) ? keyed : source;
+}
+
+export const fetchAllProgress = createAppAsyncThunk(
+  "progress/fetchAll",
+  async (_, { rejectWithValue }) => {
+    try {
+      const response = await apiClient.get("/auth/progress");
+      return toCourseProgressList(response.data);
+    } catch (error) {
+      const apiError = toApiError(error);
+      console.error("Fetch progress error:", apiError);
+      return rejectWithValue(apiError);
+    }
+  }
+);
+
+export const fetchCourseProgress = createAppAsyncThunk(
+  "progress/fetchCourse",
+  async (courseId: string, { rejectWithValue }) => {
+    try {
+      const response = await apiClient.get(
+        `/auth/progress/${encodeURIComponent(courseId)}`
+      );
+      return toCourseProgress(courseId, response.data);
+    } catch (error) {
+      const apiError = toApiError(error);
+      console.error("Fetch course progress error:", apiError);
+      return rejectWithValue(apiError);
+    }
+  }
+);
+
+export const updateCourseProgress = createAppAsyncThunk(
+  "progress/updateCourse",
+  async (
+    {
+      courseId,
+      progressData,
+    }: { courseId: string; progressData: Partial<CourseProgress> },
+    { rejectWithValue }
+  ) => {
+    try {
+      const response = await apiClient.put("/auth/progress", {
+        courseId,
+        progressData,
+      });
+      return toCourseProgress(courseId, {
+        ...progressData,
+        ...findCourseEntry(courseId, response.data),
+      });
+    } catch (error) {
+      const apiError = toApiError(error);
+      console.error("Update progress error:", apiError);
+      return rejectWithValue(apiError);
+    }
+  }
+);
+
+// Progress slice
+const progressSlice = createSlice({
+  name: "progress",
+  initialState,
+  reducers: {},
+  extraReducers: (builder) => {
+    builder
+      // Progress belongs to the signed-in user, so drop it on logout
+      .addCase(logoutUser.pending, () => initialState)
+      .addCase(manualLogout, () => initialState)
+      .addCase(expireSession, () => initialState)
+      .addCase(sessionEndedInOtherTab, () => initialState)
+
+      .addCase(fetchAllProgress.pending, (state) => {
+        state.listRequest = { status: "loading", error: null };
+      })
+      .addCase(fetchAllProgress.fulfilled, (state, action) => {
+        state.listRequest = { status: "succeeded", error: null };
+        progressAdapter.setAll(state, action.payload);
+      })
+      .addCase(fetchAllProgress.rejected, (state, action) => {
+        state.listRequest = {
+          status: "failed",
+          error: rejectedApiError(action.payload, "Could not load progress"),
+        };
+      })
+
+      .addCase(fetchCourseProgress.pending, (state, action) => {
+        state.courseRequests[action.meta.arg] = {
+          status: "loading",
+          error: null,
+        };
+      })
+      .addCase(fetchCourseProgress.fulfilled, (state, action) => {
+        state.courseRequests[action.meta.arg] = {
+          status: "succeeded",
+          error: null,
+        };
+        progressAdapter.upsertOne(state, action.payload);
+      })
+      .addCase(fetchCourseProgress.rejected, (state, action) => {
+        state.courseRequests[action.meta.arg] = {
+          status: "failed",
+          error: rejectedApiError(action.payload, "Could not load progress"),
+        };
+      })
+
+      .addCase(updateCourseProgress.pending, (state, action) => {
+        state.courseRequests[action.meta.arg.courseId] = {
+          status: "loading",
+          error: null,
+        };
+      })
+      .addCase(updateCourseProgress.fulfilled, (state, action) => {
+        state.courseRequests[action.meta.arg.courseId] = {
+          status: "succeeded",
+          error: null,
+        };
+        progressAdapter.upsertOne(state, action.payload);
+      })
+      .addCase(updateCourseProgress.rejected, (state, action) => {
+        state.courseRequests[action.meta.arg.courseId] = {
+          status: "failed",
+          error: rejectedApiError(action.payload, "Could not save progress"),
+        };
+      })
+
+      // Matchers have to come after the cases above
+      .addMatcher(isCurrentSessionRevoked, () => initialState);
+  },
+});
+
+// Selectors
+export const {
+  selectAll: selectAllCourseProgress,
+  selectById: selectCourseProgressById,
+} = progressAdapter.getSelectors(
+  (state: { progress: ProgressState }) => state.progress
+);
+
+export const selectCourseRequest = (
+  state: { progress: ProgressState },
+  courseId: string
+) => state.progress.courseRequests[courseId] || idleRequest;
+
+// Share of lessons completed, 0-100
+export function getPercentComplete(progress: CourseProgress) {
+  if (typeof progress.percentComplete === "number") {
+    return Math.min(100, Math.max(0, Math.round(progress.percentComplete)));
+  }
+  if (!progress.totalLessons) {
+    return 0;
+  }
+  return Math.min(
+    100,
+    Math.round((progress.completedLessons.length / progress.totalLessons) * 100)
+  );
+}
+
+export default progressSlice.reducer;
@@ -1,8 +1,22 @@
 "use client";
 
+import { useRef } from "react";
 import { Provider } from "react-redux";
-import { store } from "./store";
+import { AppStore, RootState, makeStore } from "./store";
 
-export function ReduxProvider({ children }: { children: React.ReactNode }) {
-  return <Provider store={store}>{children}</Provider>;
+export function ReduxProvider({
+  children,
+  preloadedState,
+}: {
+  children: React.ReactNode;
+  preloadedState?: Partial<RootState>;
+}) {
+  const storeRef = useRef<AppStore | null>(null);
+
+  // Create the store once per client tree, seeded with any server-resolved state
+  if (!storeRef.current) {
+    storeRef.current = makeStore(preloadedState);
+  }
+
+  return <Provider store={storeRef.current}>{children}</Provider>;
 }
@@ -0,0 +1,96 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  SESSION_COOKIE_NAME,
+  buildLoginUrl,
+  isProtectedRoute,
+} from "@/lib/auth/routes";
+import { fetchSession } from "@/lib/auth/session";
+
+// How long a valid session is trusted before asking the backend again
+const SESSION_CACHE_TTL_MS = 15 * 1000;
+const SESSION_CACHE_MAX_ENTRIES = 500;
+
+// Proxied backend calls that can end sessions. The revoked session's cookie
+// isn't known here, so the whole cache is dropped. Another server instance
+// may still trust its own entries for up to the TTL.
+const SESSION_ENDING_PATHS = [
+  "/api/auth/logoutExtension",
+  "/api/auth/sessions",
+  "/api/auth/change-password",
+  "/api/auth/reset-password",
+];
+
+// Session cookie value -> when its last successful check stops counting.
+// Only valid sessions are cached, so a fresh login is never turned away.
+const sessionCache = new Map<string, number>();
+
+async function isSessionValid(sessionId: string, cookieHeader: string) {
+  const expiresAt = sessionCache.get(sessionId);
+  if (expiresAt && expiresAt > Date.now()) {
+    return true;
+  }
+  sessionCache.delete(sessionId);
+
+  const session = await fetchSession(cookieHeader);
+  // Treat an unreachable backend as unauthenticated
+  if (!session?.authenticated) {
+    return false;
+  }
+
+  // Drop the oldest entry once the cache is full
+  if (sessionCache.size >= SESSION_CACHE_MAX_ENTRIES) {
+    const oldestKey = sessionCache.keys().next().value;
+    if (oldestKey !== undefined) {
+      sessionCache.delete(oldestKey);
+    }
+  }
+  sessionCache.set(sessionId, Date.now() + SESSION_CACHE_TTL_MS);
+  return true;
+}
+
+function endsSessions(request: NextRequest) {
+  const { pathname } = request.nextUrl;
+  return (
+    request.method !== "GET" &&
+    SESSION_ENDING_PATHS.some(
+      (path) => pathname === path || pathname.startsWith(`${path}/`)
+    )
+  );
+}
+
+export async function middleware(request: NextRequest) {
+  const { pathname, search } = request.nextUrl;
+
+  if (endsSessions(request)) {
+    sessionCache.clear();
+    return NextResponse.next();
+  }
+
+  if (!isProtectedRoute(pathname)) {
+    return NextResponse.next();
+  }
+
+  const sessionId = request.cookies.get(SESSION_COOKIE_NAME)?.value;
+  const authenticated = sessionId
+    ? await isSessionValid(sessionId, request.headers.get("cookie") || "")
+    : false;
+
+  if (authenticated) {
+    return NextResponse.next();
+  }
+
+  const loginUrl = new URL(buildLoginUrl(`${pathname}${search}`), request.url);
+  return NextResponse.redirect(loginUrl);
+}
+
+export const config = {
+  // Skip Next.js internals, other API routes and static assets. The
+  // session-ending auth calls are let in to clear the session cache.
+  matcher: [
+    "/((?!api|_next/static|_next/image|favicon.ico|.*\\.svg$).*)",
+    "/api/auth/logoutExtension",
+    "/api/auth/sessions/:path*",
+    "/api/auth/change-password",
+    "/api/auth/reset-password",
+  ],
+};